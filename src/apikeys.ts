@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// ============ TYPES ============
+export interface RateLimit {
+  requests: number;
+  windowSeconds: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  /** Team or service the key was issued to; usage is charged back against it. */
+  name: string;
+  /** SHA-256 of the secret part of the key. Keys are high-entropy random strings, so a fast hash is enough. */
+  hash: string;
+  createdAt: string;
+  revokedAt?: string;
+  rateLimit: RateLimit;
+  /** Requests allowed per UTC day. */
+  dailyQuota: number;
+}
+
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+export interface DailyUsage {
+  requests: number;
+  /** Profiles scored, across all items of batch requests. */
+  profiles: number;
+}
+
+interface StoreFile {
+  keys: ApiKeyRecord[];
+  /** Key id → UTC date (`YYYY-MM-DD`) → usage. */
+  usage: Record<string, Record<string, DailyUsage>>;
+}
+
+export type AccessDecision =
+  | { allowed: true; key: ApiKeyRecord; rateLimitRemaining: number; quotaRemaining: number }
+  | { allowed: false; status: 401 | 403 | 429; message: string; retryAfter?: number };
+
+export interface ApiKeyStoreOptions {
+  /** Limits for keys created without their own. */
+  defaultRateLimit?: RateLimit;
+  defaultDailyQuota?: number;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+const DEFAULT_RATE_LIMIT: RateLimit = { requests: 60, windowSeconds: 60 };
+const DEFAULT_DAILY_QUOTA = 10000;
+const KEY_PATTERN = /^pm_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function toInfo({ hash: _hash, ...info }: ApiKeyRecord): ApiKeyInfo {
+  return info;
+}
+
+// ============ STORE ============
+/**
+ * API keys and their per-day usage, persisted as JSON at `file` (in memory only when no file is given).
+ * Keys are `pm_<id>_<secret>`; only a hash of the secret is stored, so a key can't be shown again after creation.
+ * Rate limits are token buckets kept in memory; daily quotas are enforced from the persisted usage counts.
+ */
+export class ApiKeyStore {
+  private data: StoreFile = { keys: [], usage: {} };
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private readonly now: () => number;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(private readonly file?: string, private readonly options: ApiKeyStoreOptions = {}) {
+    this.now = options.now ?? Date.now;
+    if (file && fs.existsSync(file)) this.data = JSON.parse(fs.readFileSync(file, 'utf8')) as StoreFile;
+  }
+
+  /** Issues a new key. The returned `key` is the only time the full secret is available. */
+  create(input: { name: string; rateLimit?: RateLimit; dailyQuota?: number }): { key: string; info: ApiKeyInfo } {
+    const id = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const record: ApiKeyRecord = {
+      id,
+      name: input.name,
+      hash: hashSecret(secret),
+      createdAt: new Date(this.now()).toISOString(),
+      rateLimit: input.rateLimit ?? this.options.defaultRateLimit ?? DEFAULT_RATE_LIMIT,
+      dailyQuota: input.dailyQuota ?? this.options.defaultDailyQuota ?? DEFAULT_DAILY_QUOTA,
+    };
+    this.data.keys.push(record);
+    this.save();
+    return { key: `pm_${id}_${secret}`, info: toInfo(record) };
+  }
+
+  list(): ApiKeyInfo[] {
+    return this.data.keys.map(toInfo);
+  }
+
+  get(id: string): ApiKeyInfo | undefined {
+    const record = this.data.keys.find(k => k.id === id);
+    return record && toInfo(record);
+  }
+
+  /** Revoked keys are kept so their usage history stays attributable; they are answered with 403. */
+  revoke(id: string): boolean {
+    const record = this.data.keys.find(k => k.id === id);
+    if (!record || record.revokedAt) return false;
+    record.revokedAt = new Date(this.now()).toISOString();
+    this.save();
+    return true;
+  }
+
+  /** Checks a presented key against its hash, revocation, quota and rate limit, and counts the request if allowed. */
+  authorize(rawKey?: string): AccessDecision {
+    if (!rawKey) return { allowed: false, status: 401, message: 'Missing API key' };
+    const match = rawKey.match(KEY_PATTERN);
+    const record = match && this.data.keys.find(k => k.id === match[1]);
+    if (!match || !record || !crypto.timingSafeEqual(Buffer.from(hashSecret(match[2]), 'hex'), Buffer.from(record.hash, 'hex'))) {
+      return { allowed: false, status: 401, message: 'Invalid API key' };
+    }
+    if (record.revokedAt) return { allowed: false, status: 403, message: 'API key has been revoked' };
+
+    const now = this.now();
+    const today = this.todayUsage(record.id);
+    if (today.requests >= record.dailyQuota) {
+      const midnight = new Date(now);
+      midnight.setUTCHours(24, 0, 0, 0);
+      return {
+        allowed: false, status: 429, message: `Daily quota of ${record.dailyQuota} requests exceeded`,
+        retryAfter: Math.ceil((midnight.getTime() - now) / 1000),
+      };
+    }
+
+    const { requests, windowSeconds } = record.rateLimit;
+    const refillPerMs = requests / (windowSeconds * 1000);
+    const bucket = this.buckets.get(record.id) ?? { tokens: requests, updatedAt: now };
+    bucket.tokens = Math.min(requests, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(record.id, bucket);
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false, status: 429, message: `Rate limit of ${requests} requests per ${windowSeconds}s exceeded`,
+        retryAfter: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+      };
+    }
+    bucket.tokens -= 1;
+    today.requests++;
+    this.scheduleFlush();
+    return {
+      allowed: true, key: record,
+      rateLimitRemaining: Math.floor(bucket.tokens), quotaRemaining: record.dailyQuota - today.requests,
+    };
+  }
+
+  /** Adds scored profiles to today's usage of a key that was already authorized. */
+  recordProfiles(id: string, profiles: number): void {
+    if (profiles <= 0) return;
+    this.todayUsage(id).profiles += profiles;
+    this.scheduleFlush();
+  }
+
+  /** Usage by UTC day, oldest first, optionally limited to `[from, to]` (inclusive `YYYY-MM-DD`). */
+  usage(id: string, from?: string, to?: string): Record<string, DailyUsage> {
+    const days = Object.entries(this.data.usage[id] ?? {})
+      .filter(([day]) => (!from || day >= from) && (!to || day <= to))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return Object.fromEntries(days.map(([day, u]) => [day, { ...u }]));
+  }
+
+  /** Writes pending usage to disk. Called on a short timer after each request and on shutdown. */
+  flush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.save();
+  }
+
+  private todayUsage(id: string): DailyUsage {
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    const byDay = (this.data.usage[id] ??= {});
+    return (byDay[day] ??= { requests: 0, profiles: 0 });
+  }
+
+  private scheduleFlush(): void {
+    if (!this.file || this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), 1000);
+    this.flushTimer.unref();
+  }
+
+  private save(): void {
+    if (!this.file) return;
+    // Write-then-rename so a crash mid-write can't leave a truncated store behind
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmp, this.file);
+  }
+}
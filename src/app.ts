@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { ZodError, ZodIssueCode } from 'zod';
+import {
+  ApiKeyCreateSchema, BatchItemResult, BatchMatchRequestSchema, BatchMatchResponse, MatchRequestSchema, MatchResponse,
+  NicknameEntrySchema, ProfileUpsertResponse, ProfileUpsertSchema, ResolveRequestSchema, ResolveResponse, SearchRequestSchema,
+  ScoringModel, ScoringModelSchema, SearchResponse, TIER_ORDER_MESSAGE, TierBoundariesSchema, UsageQuerySchema, Weights,
+} from './types';
+import { rankProfiles } from './matching';
+import { isScoringProfile, resolveWeights } from './scoring';
+import { formatIssues, runBatch, summarize } from './batch';
+import { TierBoundaries, areOrdered, resolveTiers } from './tiers';
+import { resolveIdentity } from './identity';
+import { addNicknames, nicknameGroups, nicknameStats, nicknameVariants } from './nicknames';
+import { buildOpenApiDocument } from './openapi';
+import { DOCS_HTML } from './docs';
+import { ApiKeyStore, ApiKeyRecord } from './apikeys';
+import { ProfileStore } from './profiles';
+
+// ============ OPTIONS ============
+export type Logger = Pick<Console, 'info' | 'error'>;
+
+export interface AppOptions {
+  /** Weight overrides used when a request sends no `weights` of its own. */
+  weights?: Weights;
+  /** Scoring profile used when a request names none. */
+  scoringProfile?: string;
+  /**
+   * Trained scoring model (see `trainScoringModel`) used instead of the weighted average for requests that send
+   * neither `weights` nor `scoringProfile`.
+   */
+  model?: ScoringModel;
+  /** Confidence tier boundaries, layered over the defaults; requests can override them in turn. */
+  tiers?: Partial<TierBoundaries>;
+  limits?: {
+    /** Max JSON body size for `/match` and the admin routes (express/body-parser syntax, e.g. `100kb`). */
+    bodySize?: string;
+    /** Max JSON body size for `/match/batch`. */
+    batchBodySize?: string;
+  };
+  /** Enables the `/admin` routes, which then require this value in `X-Admin-Token`. */
+  adminToken?: string;
+  /** When set, `/match` routes require a key from this store in `X-API-Key` (or `Authorization: Bearer`). */
+  apiKeys?: ApiKeyStore;
+  /** Candidate profiles for `/profiles` and `/match/search`. Defaults to an in-memory store. */
+  profiles?: ProfileStore;
+  logger?: Logger;
+}
+
+// ============ APP ============
+/** Builds the Express app without listening, so it can be mounted in another server or driven by tests. */
+export function createApp(options: AppOptions = {}): Express {
+  if (options.scoringProfile !== undefined && !isScoringProfile(options.scoringProfile)) {
+    throw new Error(`Unknown scoring profile "${options.scoringProfile}"`);
+  }
+  resolveWeights(options.weights, options.scoringProfile); // Fail at startup rather than on the first request
+  TierBoundariesSchema.parse(options.tiers ?? {});
+  if (options.model) ScoringModelSchema.parse(options.model);
+  const logger = options.logger ?? console;
+  const profiles = options.profiles ?? new ProfileStore();
+  const app = express();
+
+  // A request that picks its own weights is scored by weighted average even when the server has a model
+  const modelFor = (data: { weights?: Weights; scoringProfile?: string }) =>
+    (data.weights || data.scoringProfile ? undefined : options.model);
+
+  const weightsFor = (data: { weights?: Weights; scoringProfile?: string }) =>
+    modelFor(data)?.weights ?? resolveWeights(data.weights ?? options.weights, data.scoringProfile ?? options.scoringProfile);
+
+  // The schema checks request tiers against the defaults; recheck once the server's own are layered in
+  function tiersFor(data: { tiers?: Partial<TierBoundaries> }): TierBoundaries {
+    const tiers = resolveTiers(options.tiers, data.tiers);
+    if (!areOrdered(tiers)) throw new ZodError([{ code: ZodIssueCode.custom, path: ['tiers'], message: TIER_ORDER_MESSAGE }]);
+    return tiers;
+  }
+
+  function sendError(res: Response, error: unknown) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        details: formatIssues(error),
+      });
+      return;
+    }
+    logger.error('Error:', error);
+    if (res.headersSent) res.end();
+    else res.status(500).json({ error: 'Internal Server Error' });
+  }
+
+  // ============ API KEYS ============
+  // Checked before the body is parsed so unauthenticated callers can't make us read large payloads
+  function requireApiKey(req: Request, res: Response, next: NextFunction) {
+    if (!options.apiKeys) {
+      next();
+      return;
+    }
+    const bearer = req.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const decision = options.apiKeys.authorize(req.get('X-API-Key') ?? bearer);
+    if (!decision.allowed) {
+      if (decision.retryAfter !== undefined) res.set('Retry-After', String(decision.retryAfter));
+      const error = { 401: 'Unauthorized', 403: 'Forbidden', 429: 'Too Many Requests' }[decision.status];
+      res.status(decision.status).json({ error, message: decision.message });
+      return;
+    }
+    res.set({
+      'X-RateLimit-Limit': String(decision.key.rateLimit.requests),
+      'X-RateLimit-Remaining': String(decision.rateLimitRemaining),
+      'X-Quota-Remaining': String(decision.quotaRemaining),
+    });
+    res.locals.apiKey = decision.key;
+    next();
+  }
+
+  /** Charges scored profiles to the calling key, for usage reports. */
+  function countProfiles(res: Response, profiles: number) {
+    const key = res.locals.apiKey as ApiKeyRecord | undefined;
+    if (key) options.apiKeys!.recordProfiles(key.id, profiles);
+  }
+
+  // Filtered-out matches were still scored, so usage is counted from the tier totals
+  const scored = (result: BatchItemResult) => Object.values(result.tiers ?? {}).reduce((n, c) => n + c, 0);
+
+  // Lets other requests run between batch items
+  const nextTurn = () => new Promise<void>(resolve => setImmediate(resolve));
+
+  app.use('/match', requireApiKey);
+  app.use('/profiles', requireApiKey);
+  app.use(['/match/batch', '/profiles'], express.json({ limit: options.limits?.batchBodySize ?? '50mb' }));
+  app.use(express.json({ limit: options.limits?.bodySize ?? '100kb' }));
+
+  app.post('/match', (req: Request, res: Response) => {
+    try {
+      const data = MatchRequestSchema.parse(req.body);
+      const weights = weightsFor(data);
+      const { matches, tiers } = rankProfiles(data.person, data.profiles, weights, {
+        explain: data.explain,
+        defaultRegion: data.defaultRegion,
+        referenceDate: data.referenceDate,
+        tiers: tiersFor(data),
+        model: modelFor(data),
+        minScore: data.minScore,
+        topK: data.topK,
+      });
+      countProfiles(res, data.profiles.length);
+      const response: MatchResponse = { matches, tiers, weights };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post('/match/resolve', (req: Request, res: Response) => {
+    try {
+      const data = ResolveRequestSchema.parse(req.body);
+      const weights = weightsFor(data);
+      const graph = resolveIdentity(data.person, data.profiles, weights, {
+        explain: data.explain,
+        defaultRegion: data.defaultRegion,
+        referenceDate: data.referenceDate,
+        tiers: tiersFor(data),
+        model: modelFor(data),
+        minScore: data.minScore,
+        maxPerPlatform: data.maxPerPlatform,
+        linkThreshold: data.linkThreshold,
+      });
+      countProfiles(res, data.profiles.length);
+      const response: ResolveResponse = { ...graph, weights };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post('/match/batch', async (req: Request, res: Response) => {
+    try {
+      const data = BatchMatchRequestSchema.parse(req.body);
+      const weights = weightsFor(data);
+      const tiers = tiersFor(data);
+
+      let closed = false;
+      res.on('close', () => { closed = true; });
+
+      if (req.accepts(['application/json', 'application/x-ndjson']) !== 'application/x-ndjson') {
+        // Same pace as the stream: other requests run between items, though the response is sent in one piece
+        const results: BatchItemResult[] = [];
+        for (const result of runBatch(data, weights, tiers, modelFor(data))) {
+          if (closed) return;
+          results.push(result);
+          await nextTurn();
+        }
+        countProfiles(res, results.reduce((n, r) => n + scored(r), 0));
+        const response: BatchMatchResponse = { results, summary: summarize(results), weights };
+        res.json(response);
+        return;
+      }
+
+      // NDJSON: one line per item as soon as it is scored, then a closing summary line
+      res.status(200).type('application/x-ndjson');
+      let succeeded = 0, failed = 0;
+      for (const result of runBatch(data, weights, tiers, modelFor(data))) {
+        if (closed) return;
+        if (result.error) failed++; else succeeded++;
+        countProfiles(res, scored(result));
+        if (!res.write(JSON.stringify(result) + '\n')) {
+          await new Promise<void>(resolve => { res.once('drain', resolve); res.once('close', resolve); });
+        } else {
+          await nextTurn();
+        }
+      }
+      res.end(JSON.stringify({ summary: { total: succeeded + failed, succeeded, failed }, weights }) + '\n');
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // ============ PROFILE STORE ============
+  app.post('/match/search', (req: Request, res: Response) => {
+    try {
+      const data = SearchRequestSchema.parse(req.body);
+      const weights = weightsFor(data);
+      const candidates = profiles.candidates(data.person, { defaultRegion: data.defaultRegion });
+      const { matches, tiers } = rankProfiles(data.person, candidates, weights, {
+        explain: data.explain,
+        defaultRegion: data.defaultRegion,
+        referenceDate: data.referenceDate,
+        tiers: tiersFor(data),
+        model: modelFor(data),
+        minScore: data.minScore,
+        topK: data.topK ?? 10,
+      });
+      countProfiles(res, candidates.length);
+      const response: SearchResponse = { matches, tiers, weights, candidates: candidates.length };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post('/profiles', (req: Request, res: Response) => {
+    try {
+      const counts = profiles.upsert(ProfileUpsertSchema.parse(req.body).profiles);
+      const response: ProfileUpsertResponse = { ...counts, total: profiles.size };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get('/profiles/:platform/:username', (req: Request, res: Response) => {
+    const profile = profiles.get(req.params.platform, req.params.username);
+    if (!profile) {
+      res.status(404).json({ error: 'Not Found' });
+      return;
+    }
+    res.json(profile);
+  });
+
+  app.delete('/profiles/:platform/:username', (req: Request, res: Response) => {
+    if (!profiles.delete(req.params.platform, req.params.username)) {
+      res.status(404).json({ error: 'Not Found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // ============ ADMIN ============
+  // Compared as digests, so the check takes the same time whatever the length or content of the guess
+  const sameSecret = (given: string, expected: string) => crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(given).digest(), crypto.createHash('sha256').update(expected).digest(),
+  );
+
+  function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (!options.adminToken) {
+      res.status(403).json({ error: 'Forbidden', message: 'Admin API is disabled; set ADMIN_TOKEN to enable it' });
+      return;
+    }
+    if (!sameSecret(req.get('X-Admin-Token') ?? '', options.adminToken)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  }
+
+  app.get('/admin/nicknames', requireAdmin, (_req: Request, res: Response) => {
+    res.json(nicknameStats());
+  });
+
+  app.get('/admin/nicknames/:name', requireAdmin, (req: Request, res: Response) => {
+    res.json({ name: req.params.name, groups: nicknameGroups(req.params.name), variants: nicknameVariants(req.params.name) });
+  });
+
+  app.post('/admin/nicknames', requireAdmin, (req: Request, res: Response) => {
+    try {
+      const { name, nicknames } = NicknameEntrySchema.parse(req.body);
+      addNicknames(name, nicknames);
+      res.status(201).json({ name, groups: nicknameGroups(name), variants: nicknameVariants(name) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  function requireKeyStore(_req: Request, res: Response, next: NextFunction) {
+    if (!options.apiKeys) {
+      res.status(404).json({ error: 'Not Found', message: 'API keys are not enabled; set API_KEYS_FILE to enable them' });
+      return;
+    }
+    next();
+  }
+
+  app.get('/admin/keys', requireAdmin, requireKeyStore, (_req: Request, res: Response) => {
+    res.json({ keys: options.apiKeys!.list() });
+  });
+
+  app.post('/admin/keys', requireAdmin, requireKeyStore, (req: Request, res: Response) => {
+    try {
+      const { key, info } = options.apiKeys!.create(ApiKeyCreateSchema.parse(req.body));
+      res.status(201).json({ key, ...info });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get('/admin/keys/:id/usage', requireAdmin, requireKeyStore, (req: Request, res: Response) => {
+    try {
+      const info = options.apiKeys!.get(req.params.id);
+      if (!info) {
+        res.status(404).json({ error: 'Not Found' });
+        return;
+      }
+      const { from, to } = UsageQuerySchema.parse(req.query);
+      const days = options.apiKeys!.usage(info.id, from, to);
+      const total = { requests: 0, profiles: 0 };
+      for (const u of Object.values(days)) {
+        total.requests += u.requests;
+        total.profiles += u.profiles;
+      }
+      res.json({ id: info.id, name: info.name, days, total });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete('/admin/keys/:id', requireAdmin, requireKeyStore, (req: Request, res: Response) => {
+    if (!options.apiKeys!.revoke(req.params.id)) {
+      res.status(404).json({ error: 'Not Found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  // ============ DOCS ============
+  app.get('/openapi.json', (_req: Request, res: Response) => {
+    res.json(buildOpenApiDocument());
+  });
+
+  app.get('/docs', (_req: Request, res: Response) => {
+    res.type('html').send(DOCS_HTML);
+  });
+
+  // Body-parser failures arrive here; answer in JSON like every other error
+  app.use((error: { type?: string; status?: number }, _req: Request, res: Response, next: NextFunction) => {
+    if (error.type === 'entity.parse.failed') {
+      res.status(400).json({ error: 'Invalid JSON' });
+      return;
+    }
+    if (error.type === 'entity.too.large') {
+      res.status(413).json({ error: 'Payload Too Large' });
+      return;
+    }
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+    sendError(res, error);
+  });
+
+  return app;
+}
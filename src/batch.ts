@@ -0,0 +1,53 @@
+import { ZodError } from 'zod';
+import {
+  BatchItemSchema, BatchItemResult, BatchMatchRequest, BatchSummary, Profile, ScoringModel, ValidationIssue, Weights,
+} from './types';
+import { MatchFilter, ScoringOptions, rankProfiles } from './matching';
+import { TierBoundaries } from './tiers';
+
+export function formatIssues(error: ZodError): ValidationIssue[] {
+  return error.errors.map(e => ({ path: e.path.join('.'), message: e.message }));
+}
+
+/** Scores one batch entry, reporting bad input as an item-level error rather than throwing. */
+export function matchBatchItem(
+  raw: unknown, index: number, sharedProfiles: Profile[] | undefined, weights: Weights,
+  options: ScoringOptions & MatchFilter = {},
+): BatchItemResult {
+  const parsed = BatchItemSchema.safeParse(raw);
+  if (!parsed.success) {
+    const id = typeof (raw as { id?: unknown })?.id === 'string' ? (raw as { id: string }).id : undefined;
+    return { index, id, error: { error: 'Validation Error', details: formatIssues(parsed.error) } };
+  }
+  const { id, person } = parsed.data;
+  const profiles = parsed.data.profiles ?? sharedProfiles;
+  if (!profiles) {
+    return {
+      index, id,
+      error: { error: 'Validation Error', details: [{ path: 'profiles', message: 'No profiles given for this item and no shared profiles in the batch' }] },
+    };
+  }
+  return { index, id, ...rankProfiles(person, profiles, weights, options) };
+}
+
+/** Lazily scores each item so callers can stream results as they are produced. */
+export function* runBatch(
+  request: BatchMatchRequest, weights: Weights, tiers?: TierBoundaries, model?: ScoringModel,
+): Generator<BatchItemResult> {
+  for (let i = 0; i < request.items.length; i++) {
+    yield matchBatchItem(request.items[i], i, request.profiles, weights, {
+      explain: request.explain,
+      defaultRegion: request.defaultRegion,
+      referenceDate: request.referenceDate,
+      tiers,
+      model,
+      minScore: request.minScore,
+      topK: request.topK,
+    });
+  }
+}
+
+export function summarize(results: BatchItemResult[]): BatchSummary {
+  const failed = results.filter(r => r.error).length;
+  return { total: results.length, succeeded: results.length - failed, failed };
+}
@@ -0,0 +1,337 @@
+import { BirthClaim, extractBirthClaims, formatDate } from './dates';
+import { ParsedEmail, extractEmails } from './email';
+import { extractPhoneNumbers, findPhoneCandidates } from './phone';
+import { JobRole, findJobRoleMentions, onJobTitlesLoaded } from './job-titles';
+import { CLAUSE_BREAK, onOrganizationsLoaded, organizationWords, pastEmploymentCue } from './organizations';
+import { Place, isPlaceName, isWithin, placeLabel, resolveLocation } from './gazetteer';
+
+// ============ CLAIMS ============
+// A bio is split into segments at the separators people put between facts ("Engineer @ Acme | she/her • 📍 NYC"),
+// and each fact is read once into a claim recording where in the bio it was found. The bio matchers work from
+// these claims rather than each scanning the raw text.
+export const BIO_CLAIM_KINDS = [
+  'role', 'employer', 'location', 'pronouns', 'birth', 'email', 'phone', 'url', 'handle', 'hashtag',
+] as const;
+
+/** A stretch of the bio: `text` is `bio.slice(start, end)`. A type rather than an interface so claims fit `BioClaimSchema`. */
+export type BioSpan = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+/** One fact read from a bio, with `value` a normalized, human-readable form of it. */
+export type BioClaim = BioSpan & { value: string } & (
+  | { kind: 'role'; role: JobRole }
+  | { kind: 'employer'; /** The cue ("ex", "formerly", "alum") marking a past employer. */ past?: string }
+  | { kind: 'location'; /** Gazetteer id, when the location resolves. */ place?: string; /** Moved away from. */ previous?: boolean }
+  | { kind: 'birth'; birth: BirthClaim }
+  | { kind: 'email'; email: ParsedEmail }
+  | { kind: 'pronouns' | 'phone' | 'url' | 'handle' | 'hashtag' }
+);
+
+export interface ParsedBio {
+  segments: BioSpan[];
+  /** In order of where they start in the bio. */
+  claims: BioClaim[];
+}
+
+// ============ SEGMENTS ============
+// Items end at | ; • · ▪ ◦ ‣ and line breaks; an emoji starts a new one, since bios use them as bullets, except
+// for the ➡️ in "NYC ➡️ SF"
+const SEPARATOR = /[|;\n\r\u2022\u00b7\u25aa\u25e6\u2023]+/g;
+const EMOJI = /(?!\u27a1)(?:\p{Extended_Pictographic}|\p{Regional_Indicator}{2})(?:\uFE0F|\u200D\p{Extended_Pictographic}|[\u{1F3FB}-\u{1F3FF}])*/gu;
+
+function span(bio: string, start: number, end: number): BioSpan {
+  return { text: bio.slice(start, end), start, end };
+}
+
+function segmentsOf(bio: string): BioSpan[] {
+  const cuts = new Set([0, bio.length]), gaps: [number, number][] = [];
+  for (const m of bio.matchAll(SEPARATOR)) gaps.push([m.index!, m.index! + m[0].length]);
+  for (const [start, end] of gaps) cuts.add(start).add(end);
+  for (const m of bio.matchAll(EMOJI)) cuts.add(m.index!);
+  const sorted = [...cuts].sort((a, b) => a - b);
+
+  const segments: BioSpan[] = [];
+  for (let i = 0; i + 1 < sorted.length; i++) {
+    let start = sorted[i], end = sorted[i + 1];
+    if (gaps.some(([s, e]) => start >= s && end <= e)) continue;
+    while (start < end && /\s/.test(bio[start])) start++;
+    while (end > start && /\s/.test(bio[end - 1])) end--;
+    if (end > start) segments.push(span(bio, start, end));
+  }
+  return segments;
+}
+
+// ============ EXTRACTORS ============
+// Each reads one segment and returns claims with offsets relative to it; `parseBio` moves them to the bio's
+
+/** Where `source` occurs in `text` at or after `from`, ignoring case. */
+function locate(text: string, source: string, from = 0): [number, number] | undefined {
+  const i = text.toLowerCase().indexOf(source.toLowerCase(), from);
+  return i < 0 ? undefined : [i, i + source.length];
+}
+
+const PRONOUNS =
+  /\b(she|he|they|xe|ze|fae)\s*\/\s*(her|him|them|hers|his|theirs|xem|xyr|zir|hir|faer)(?:\s*\/\s*(hers|his|theirs|them|her|him|xyrs|zirs|faers))?\b/gi;
+const TLDS = 'com|org|net|io|dev|me|co|ai|app|xyz|so|page|link|site|blog|tech|gg|tv|fm';
+const URL = new RegExp(`\\b(?:https?://|www\\.)[^\\s<>"'|]+|\\b(?:[a-z0-9-]+\\.)+(?:${TLDS})\\b(?:/[^\\s<>"'|]*)?`, 'gi');
+const HANDLE = /(?<![\w@.])@([a-z0-9_](?:[a-z0-9_.]*[a-z0-9_])?)/gi;
+const HASHTAG = /(?<![\p{L}\d_&#])#([\p{L}\d_]*\p{L}[\p{L}\d_]*)/gu;
+
+function contactClaims(text: string): BioClaim[] {
+  const claims: BioClaim[] = [];
+  let from = 0;
+  for (const email of extractEmails(text)) {
+    const at = locate(text, email.source, from) ?? locate(text, email.source);
+    if (!at) continue;
+    from = at[1];
+    claims.push({ kind: 'email', text: email.source, start: at[0], end: at[1], value: email.normalized, email });
+  }
+  // URLs and handles inside an address ("jane@acme.com") are part of it
+  const taken = (start: number, end: number) => claims.some(c => start < c.end && end > c.start);
+  for (const m of text.matchAll(URL)) {
+    const source = m[0].replace(/[.,;:!?)]+$/, '');
+    const start = m.index!, end = start + source.length;
+    if (taken(start, end)) continue;
+    claims.push({ kind: 'url', text: source, start, end, value: source.toLowerCase().replace(/\/$/, '') });
+  }
+  for (const m of text.matchAll(HANDLE)) {
+    const start = m.index!, end = start + m[0].length;
+    if (!taken(start, end)) claims.push({ kind: 'handle', text: m[0], start, end, value: m[0].toLowerCase() });
+  }
+  for (const m of text.matchAll(HASHTAG)) {
+    const start = m.index!, end = start + m[0].length;
+    if (!taken(start, end)) claims.push({ kind: 'hashtag', text: m[0], start, end, value: m[0].toLowerCase() });
+  }
+  return claims;
+}
+
+function describeBirth(birth: BirthClaim): string {
+  switch (birth.kind) {
+    case 'date': return formatDate(birth.date);
+    case 'age': return `age ${birth.age}`;
+    case 'graduation': return `class of ${birth.twoDigitYear ? `'${String(birth.year).padStart(2, '0')}` : birth.year}`;
+    case 'zodiac': return birth.sign;
+  }
+}
+
+function personalClaims(text: string): BioClaim[] {
+  const claims: BioClaim[] = [];
+  for (const m of text.matchAll(PRONOUNS)) {
+    const value = m.slice(1).filter(Boolean).join('/').toLowerCase();
+    claims.push({ kind: 'pronouns', text: m[0], start: m.index!, end: m.index! + m[0].length, value });
+  }
+  for (const birth of extractBirthClaims(text)) {
+    const at = locate(text, birth.source);
+    if (at) claims.push({ kind: 'birth', text: text.slice(at[0], at[1]), start: at[0], end: at[1], value: describeBirth(birth), birth });
+  }
+  // Dates and years also look like digit runs, so a number inside a birth claim isn't a phone; nor is one after a
+  // `#`, which numbers orders, tickets and rankings
+  let from = 0;
+  for (const candidate of findPhoneCandidates(text)) {
+    const span = locate(text, candidate, from);
+    if (!span) continue;
+    from = span[1];
+    if (/#\s*$/.test(text.slice(0, span[0]))) continue;
+    for (const phone of extractPhoneNumbers(candidate)) {
+      const at = locate(text, phone.source.trim(), span[0]);
+      if (!at || claims.some(c => c.kind === 'birth' && at[0] < c.end && at[1] > c.start)) continue;
+      claims.push({ kind: 'phone', text: text.slice(at[0], at[1]), start: at[0], end: at[1], value: phone.e164 ?? phone.nationalNumber });
+    }
+  }
+  return claims;
+}
+
+function roleClaims(segment: string): BioClaim[] {
+  return findJobRoleMentions(segment).map(({ start, end, ...role }) => {
+    const value = role.level ? `${role.level} ${role.family}` : role.family;
+    return { kind: 'role', text: segment.slice(start, end), start, end, value, role };
+  });
+}
+
+// Capitalized word runs ("Acme Corp", "AT&T", "3M", "Yahoo! Inc") are organisation candidates; a dot only continues a
+// word ("Booking.com"), so runs stop at sentence ends
+const WORD = "[\\p{L}\\d&'\\u2019!-]*(?:\\.[\\p{L}\\d&'\\u2019-]+)*";
+const ORG_RUN = new RegExp(`(?<![\\p{L}\\d])(?:\\p{Lu}|\\d+\\p{Lu})${WORD}(?:\\s+(?:&\\s+)?(?:\\p{Lu}|\\d)${WORD}){0,4}`, 'gu');
+const EX_PREFIX = /^ex[-\u2010]/i;
+const EMPLOYER_BEFORE = /(?:^|\s)(?:at|@|ex-?|(?:formerly|previously|prev)(?:\s+(?:at|@))?:?|(?:works?|working)\s+(?:at|for)|joined)\s*$/i;
+const ALUM_WORDS = new Set(['alum', 'alumni', 'alumnus', 'alumna']);
+
+function employerClaims(segment: string): BioClaim[] {
+  const claims: BioClaim[] = [];
+  for (const m of segment.matchAll(ORG_RUN)) {
+    let source = m[0].replace(/['\u2019]s$|['\u2019!-]+$/, ''), start = m.index!;
+    // "Ex-Google"
+    const ex = EX_PREFIX.test(source) && source.length > 3;
+    if (ex) {
+      source = source.slice(3);
+      start += 3;
+    }
+    const words = source.split(/\s+/);
+    let alum: string | undefined;
+    // "Stanford Alum"
+    while (words.length > 1 && ALUM_WORDS.has(words[words.length - 1].toLowerCase())) alum = words.pop()!.toLowerCase();
+    source = words.join(' ');
+    // Cues only count within the clause, so "Ex-Google, Stanford alum" doesn't make Stanford an "ex"
+    const before = segment.slice(0, start).split(CLAUSE_BREAK).pop()!;
+    const afterWords = organizationWords(segment.slice(start + source.length).split(CLAUSE_BREAK)[0]);
+    if (!ex && !alum && !EMPLOYER_BEFORE.test(before) && !ALUM_WORDS.has(afterWords[0])) continue;
+    const past = ex ? 'ex' : alum ?? pastEmploymentCue(organizationWords(before), afterWords);
+    claims.push({ kind: 'employer', text: source, start, end: start + source.length, value: source, ...past && { past } });
+  }
+  return claims;
+}
+
+const LOCATION_CUE = /(?:\u{1F4CD}\uFE0F?|\b(?:based|living|lives|located|residing|live)\s+in\b|\bfrom\b)\s*:?\s*([^.!?()]+)/giu;
+// "from 2019 to 2023 in Berlin": a span of years between the cue and the place
+const YEAR_SPAN = /^\d{4}\s*(?:-|\u2013|\u2014|to|until|till)\s*(?:\d{4}|now|present|today)\b[\s,]*(?:(?:based|living|located)\s+)?(?:in\s+)?/i;
+const BASED = /(?<![\p{L}\d])((?:\p{Lu}\p{L}*\s+)?\p{Lu}\p{L}*)-based\b/gu;
+const PLACE_WORDS = 5;
+
+/** The place named at the end of `text` ("Born in London" → "London"), as `locationIn` reads the start. */
+function locationBefore(text: string): { start: number; place: string; label: string } | undefined {
+  const starts = [...text.matchAll(/[\p{L}\d]+/gu)].map(m => m.index!);
+  const from = (n: number) => text.slice(starts[starts.length - n]);
+  let n = Math.min(starts.length, PLACE_WORDS), place: ReturnType<typeof resolveLocation>;
+  while (n > 0 && !(place = resolveLocation(from(n)))) n--;
+  if (!place) return undefined;
+  while (n > 1 && resolveLocation(from(n - 1))?.id === place.id) n--;
+  return { start: starts[starts.length - n], place: place.id, label: placeLabel(place) };
+}
+
+/**
+ * The place named at the start of `text` ("NYC and loving it", "Boston, MA and loving it" → "Boston, MA"): the
+ * longest few words before a comma that resolve, less trailing words that don't change the place, plus ", qualifier"
+ * parts that narrow it ("Portland, ME"). The first word that doesn't narrow ends the place ("Portland, ME with").
+ */
+function locationIn(text: string): { source: string; place: string; label: string } | undefined {
+  const comma = text.indexOf(',');
+  const ends = [...text.matchAll(/[\p{L}\d]+/gu)].map(m => m.index! + m[0].length).filter(e => comma < 0 || e <= comma);
+  let n = Math.min(ends.length, PLACE_WORDS), place: ReturnType<typeof resolveLocation>;
+  while (n > 0 && !(place = resolveLocation(text.slice(0, ends[n - 1])))) n--;
+  if (!place) return undefined;
+  while (n > 1 && resolveLocation(text.slice(0, ends[n - 2]))?.id === place.id) n--;
+  let end = ends[n - 1];
+  for (let rest = text.slice(end); ;) {
+    const found = qualifierOf(rest, text.slice(0, end));
+    if (!found) break;
+    place = found.place;
+    end += found.length;
+    rest = text.slice(end);
+  }
+  return { source: text.slice(0, end), place: place.id, label: placeLabel(place) };
+}
+
+/** A ", qualifier" at the start of `rest` (up to three words, longest first) that narrows `head` to a place inside it. */
+function qualifierOf(rest: string, head: string): { place: Place; length: number } | undefined {
+  const m = /^,\s*\p{L}+(?:\s\p{L}+){0,2}/u.exec(rest);
+  if (!m) return undefined;
+  const ends = [...m[0].matchAll(/\p{L}+/gu)].map(w => w.index! + w[0].length).reverse();
+  for (const length of ends) {
+    const name = rest.slice(0, length).replace(/^,\s*/, '');
+    const qualifier = isPlaceName(name) ? resolveLocation(name) : undefined;
+    const place = qualifier && resolveLocation(head + rest.slice(0, length));
+    if (place && (place.id === qualifier.id || isWithin(place, qualifier))) return { place, length };
+  }
+  return undefined;
+}
+
+// "NYC → SF", "London -> Berlin", "NYC ➡️ SF": every place but the last was moved away from
+const MOVE = /\s*(?:\u2192|\u27f6|\u21d2|\u27a1\uFE0F?|-+>|=>)\s*/gu;
+
+function moveClaims(segment: string): BioClaim[] {
+  const arrows = [...segment.matchAll(MOVE)];
+  if (arrows.length === 0) return [];
+  const claims: BioClaim[] = [];
+  const before = locationBefore(segment.slice(0, arrows[0].index));
+  if (before) {
+    const { start, label, place } = before, end = arrows[0].index!;
+    claims.push({ kind: 'location', text: segment.slice(start, end), start, end, value: label, place, previous: true });
+  }
+  arrows.forEach((arrow, i) => {
+    const offset = arrow.index! + arrow[0].length;
+    const found = locationIn(segment.slice(offset, arrows[i + 1]?.index));
+    if (!found) return;
+    const { source, label, place } = found;
+    const claim: BioClaim = { kind: 'location', text: source, start: offset, end: offset + source.length, value: label, place };
+    claims.push(i < arrows.length - 1 ? { ...claim, previous: true } : claim);
+  });
+  return claims;
+}
+
+function locationClaims(segment: string): BioClaim[] {
+  const claims = moveClaims(segment);
+  const add = (claim: BioClaim) => {
+    if (!claims.some(c => claim.start < c.end && claim.end > c.start)) claims.push(claim);
+  };
+  for (const m of segment.matchAll(LOCATION_CUE)) {
+    const years = YEAR_SPAN.exec(m[1])?.[0].length ?? 0;
+    const offset = m.index! + m[0].length - m[1].length + years, captured = m[1].slice(years);
+    const found = locationIn(captured);
+    if (found) {
+      const { source, label, place } = found;
+      add({ kind: 'location', text: source, start: offset, end: offset + source.length, value: label, place });
+    } else if (!/^from\b/i.test(m[0])) {
+      // Somewhere the gazetteer doesn't know; "from" alone is too loose to keep without it
+      const source = captured.split(MOVE)[0].split(/,\s|\s[-\u2013\u2014]\s|\s(?:and|with|&)\s/)[0].trim();
+      if (source) add({ kind: 'location', text: source, start: offset, end: offset + source.length, value: source });
+    }
+  }
+  for (const m of segment.matchAll(BASED)) {
+    const found = locationIn(m[1]);
+    if (found) add({ kind: 'location', text: m[1], start: m.index!, end: m.index! + m[1].length, value: found.label, place: found.place });
+  }
+  return claims;
+}
+
+// ============ PARSER ============
+const CACHE_SIZE = 256;
+const cache = new Map<string, ParsedBio>();
+// Roles and employers are read with the loaded taxonomies, so parses made before a load may be stale
+onJobTitlesLoaded(() => cache.clear());
+onOrganizationsLoaded(() => cache.clear());
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+/**
+ * Splits a bio into segments and reads the claims in each: roles, employers (with past-employment cues), locations,
+ * pronouns, birth dates and ages, emails, phone numbers, URLs, @handles and hashtags. Results are cached by text,
+ * since every bio matcher asks for the same bio, and frozen so no caller can change what the next one reads.
+ */
+export function parseBio(bio: string): ParsedBio {
+  const cached = cache.get(bio);
+  if (cached) return cached;
+
+  const segments = segmentsOf(bio);
+  const claims: BioClaim[] = [];
+  for (const segment of segments) {
+    const contact = contactClaims(segment.text);
+    // Words inside addresses and links ("janedoe.dev") aren't roles, employers or places
+    let text = segment.text;
+    for (const c of contact) text = text.slice(0, c.start) + ' '.repeat(c.end - c.start) + text.slice(c.end);
+    const found = [...roleClaims(text), ...employerClaims(text), ...locationClaims(text), ...personalClaims(segment.text), ...contact];
+    for (const claim of found) {
+      const start = segment.start + claim.start, end = segment.start + claim.end;
+      claims.push({ ...claim, ...span(bio, start, end) });
+    }
+  }
+  claims.sort((a, b) => a.start - b.start);
+
+  const parsed = deepFreeze({ segments, claims });
+  if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  cache.set(bio, parsed);
+  return parsed;
+}
+
+/** Claims of one kind. */
+export function bioClaims<K extends BioClaim['kind']>(bio: string, kind: K): (BioClaim & { kind: K })[] {
+  return parseBio(bio).claims.filter((c): c is BioClaim & { kind: K } => c.kind === kind);
+}
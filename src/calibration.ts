@@ -0,0 +1,204 @@
+import fs from 'fs';
+import { LabelledPair, LabelledPairSchema, ModelMetrics, Person, Profile, ScoringModel, ScoringModelSchema, Weights } from './types';
+import { MatchContext, defaultWeights, getMatchers } from './registry';
+import { classificationMetrics, logLoss, rocAuc } from './metrics';
+
+// ============ LABELLED PAIRS ============
+/** Reads JSONL `{person, profile, isMatch}` lines, skipping blank ones; errors name the offending line. */
+export function parseLabelledPairs(text: string): LabelledPair[] {
+  const pairs: LabelledPair[] = [];
+  text.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1}: invalid JSON`);
+    }
+    const parsed = LabelledPairSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`Line ${i + 1}: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+    }
+    pairs.push(parsed.data);
+  });
+  return pairs;
+}
+
+/** Scores of the registered matchers that apply to a pair, by matcher name. */
+export function factorScores(person: Person, profile: Profile, context: Omit<MatchContext, 'evidence'> = {}): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const matcher of getMatchers()) {
+    if (matcher.applies(person, profile)) scores[matcher.name] = matcher.score(person, profile, { ...context });
+  }
+  return scores;
+}
+
+// ============ SCORING MODEL ============
+// A logistic model over the matcher outputs: each matcher that applies adds `applied + score * s` to the log-odds,
+// so a factor can count for or against a match by being present at all as well as by how well it scores.
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/** Log-odds a matcher adds under the model; 0 for matchers the model doesn't know. */
+export function factorLogOdds(model: ScoringModel, matcher: string, score: number): number {
+  const c = model.factors[matcher];
+  return c ? c.applied + c.score * score : 0;
+}
+
+/** Probability of a match given the scores of the matchers that applied. */
+export function modelProbability(model: ScoringModel, scores: Record<string, number>): number {
+  let logOdds = model.intercept;
+  for (const [matcher, s] of Object.entries(scores)) logOdds += factorLogOdds(model, matcher, s);
+  return sigmoid(logOdds);
+}
+
+export function loadScoringModel(file: string): ScoringModel {
+  return ScoringModelSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')));
+}
+
+// ============ TRAINING ============
+export interface TrainingOptions extends Omit<MatchContext, 'evidence'> {
+  /** Share of pairs held out for the reported metrics. Default 0.2. */
+  holdout?: number;
+  /** Seed for the train/test shuffle, so runs are repeatable. Default 1. */
+  seed?: number;
+  /** Probability at or above which a held-out pair counts as a predicted match. Default 0.5. */
+  threshold?: number;
+  /** Ridge penalty on the coefficients (not the intercept); keeps rare or perfectly separating factors finite. Default 1. */
+  l2?: number;
+}
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-8;
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], seed: number): T[] {
+  const random = mulberry32(seed), out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Solves `a x = b` by Gaussian elimination with partial pivoting; `a` is positive definite here. */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+/** Ridge-penalized logistic regression by Newton's method; column 0 is the unpenalized intercept. */
+function fitLogistic(rows: number[][], labels: number[], l2: number): number[] {
+  const k = rows[0].length;
+  let beta = new Array<number>(k).fill(0);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = beta.map((b, j) => (j === 0 ? 0 : -l2 * b));
+    const hessian = beta.map((_, i) => beta.map((__, j) => (i === j && i > 0 ? l2 : 0)));
+    rows.forEach((x, r) => {
+      const p = sigmoid(x.reduce((sum, v, j) => sum + v * beta[j], 0));
+      const w = p * (1 - p);
+      for (let i = 0; i < k; i++) {
+        if (x[i] === 0) continue;
+        gradient[i] += (labels[r] - p) * x[i];
+        for (let j = 0; j < k; j++) hessian[i][j] += w * x[i] * x[j];
+      }
+    });
+    const step = solve(hessian, gradient);
+    beta = beta.map((b, j) => b + step[j]);
+    if (Math.max(...step.map(Math.abs)) < TOLERANCE) break;
+  }
+  return beta;
+}
+
+const round6 = (n: number) => Math.round(n * 1e6) / 1e6;
+
+/** Weighted average of the applied factor scores, as `calculateMatchScore` works it out without a model. */
+function baselineScore(scores: Record<string, number>, weights: Weights): number {
+  let score = 0, weight = 0;
+  for (const [matcher, s] of Object.entries(scores)) {
+    score += s * (weights[matcher] ?? 0);
+    weight += weights[matcher] ?? 0;
+  }
+  return weight > 0 ? score / weight : 0;
+}
+
+/**
+ * Fits a logistic scoring model to labelled pairs over the registered matchers' outputs. A seeded share of the
+ * pairs is held out, and `metrics` reports how the model (and, for comparison, the default weights) rank them.
+ */
+export function trainScoringModel(pairs: LabelledPair[], options: TrainingOptions = {}): ScoringModel {
+  const { holdout = 0.2, seed = 1, threshold = 0.5, l2 = 1, defaultRegion, referenceDate } = options;
+  if (!(holdout > 0 && holdout < 1)) throw new Error('holdout must be between 0 and 1');
+  if (!(l2 > 0)) throw new Error('l2 must be greater than 0');
+
+  const shuffled = shuffle(pairs, seed);
+  const testSize = Math.round(shuffled.length * holdout);
+  const test = shuffled.slice(0, testSize), train = shuffled.slice(testSize);
+  if (test.length === 0 || train.length === 0) throw new Error(`Too few labelled pairs (${pairs.length}) to hold some out`);
+  if (!train.some(p => p.isMatch) || train.every(p => p.isMatch)) {
+    throw new Error('Training pairs must include both matches and non-matches');
+  }
+
+  const names = getMatchers().map(m => m.name);
+  const scored = (list: LabelledPair[]) => list.map(p => ({ ...p, scores: factorScores(p.person, p.profile, { defaultRegion, referenceDate }) }));
+  const trainScored = scored(train);
+  // Features: intercept, then per matcher whether it applied and its score (0 when it didn't)
+  const rows = trainScored.map(({ scores }) => [1, ...names.flatMap(n => (n in scores ? [1, scores[n]] : [0, 0]))]);
+  const beta = fitLogistic(rows, trainScored.map(p => (p.isMatch ? 1 : 0)), l2).map(round6);
+
+  const factors: ScoringModel['factors'] = {};
+  names.forEach((name, i) => { factors[name] = { applied: beta[1 + 2 * i], score: beta[2 + 2 * i] }; });
+  const positive = Object.entries(factors).map(([name, c]) => [name, Math.max(0, c.score)] as const);
+  const total = positive.reduce((sum, [, w]) => sum + w, 0);
+  const weights = total > 0
+    ? Object.fromEntries(positive.map(([name, w]) => [name, Math.round((w / total) * 10000) / 10000]))
+    : defaultWeights();
+  const model: ScoringModel = { version: 1, kind: 'logistic', trainedAt: new Date().toISOString(), intercept: beta[0], factors, weights };
+
+  const testScored = scored(test);
+  const predictions = testScored.map(p => ({ score: modelProbability(model, p.scores), isMatch: p.isMatch }));
+  const defaults = defaultWeights();
+  const baseline = testScored.map(p => ({ score: baselineScore(p.scores, defaults), isMatch: p.isMatch }));
+  const { precision, recall, f1 } = classificationMetrics(predictions, threshold);
+  const auc = rocAuc(predictions), baselineAuc = rocAuc(baseline);
+  const metrics: ModelMetrics = {
+    train: train.length,
+    test: test.length,
+    threshold,
+    precision: round6(precision),
+    recall: round6(recall),
+    f1: round6(f1),
+    auc: auc === null ? null : round6(auc),
+    logLoss: round6(logLoss(predictions)),
+    baselineAuc: baselineAuc === null ? null : round6(baselineAuc),
+  };
+  return { ...model, metrics };
+}
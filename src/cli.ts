@@ -0,0 +1,36 @@
+import { ZodError } from 'zod';
+import { ReferenceDateSchema, RegionSchema } from './types';
+import { MatchContext } from './registry';
+
+// ============ COMMAND LINE HELPERS ============
+// Shared by the `train` and `evaluate` commands.
+export function numberOption(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new Error(`--${name} must be a number`);
+  return n;
+}
+
+/** `--reference-date` and `--default-region`, validated as in a request. */
+export function contextOptions(values: { 'reference-date'?: string; 'default-region'?: string }): Omit<MatchContext, 'evidence'> {
+  return {
+    referenceDate: values['reference-date'] === undefined ? undefined : ReferenceDateSchema.parse(values['reference-date']),
+    defaultRegion: values['default-region'] === undefined ? undefined : RegionSchema.parse(values['default-region']),
+  };
+}
+
+export const CONTEXT_OPTIONS = {
+  'reference-date': { type: 'string' },
+  'default-region': { type: 'string' },
+} as const;
+
+/** Runs a command, printing errors without a stack trace and exiting 1 on failure. */
+export function runCommand(main: () => void): void {
+  try {
+    main();
+  } catch (error) {
+    if (error instanceof ZodError) console.error(error.errors.map(e => e.message).join('\n'));
+    else console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,165 @@
+// ============ PARTIAL DATES ============
+// Dates are read into calendar fields rather than `Date` objects: bios often give only part of a date
+// ("🎂 May 15", "born '90"), and `new Date(text)` guesses at formats and shifts dates across time zones.
+export interface PartialDate {
+  year?: number;
+  month?: number;
+  day?: number;
+  /** `year` holds only the last two digits ("b. 5/15/90"). */
+  twoDigitYear?: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?'
+  + '|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function daysInMonth(month: number, year?: number): number {
+  if (month === 2) return year === undefined || (year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0)) ? 29 : 28;
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+function build(year?: string, month?: number | string, day?: string): PartialDate | null {
+  const date: PartialDate = {};
+  if (year !== undefined) {
+    date.year = parseInt(year, 10);
+    if (year.length === 2) date.twoDigitYear = true;
+  }
+  if (month !== undefined) date.month = typeof month === 'number' ? month : parseInt(month, 10);
+  if (day !== undefined) date.day = parseInt(day, 10);
+  if (date.month !== undefined && (date.month < 1 || date.month > 12)) return null;
+  if (date.day !== undefined) {
+    const fullYear = date.twoDigitYear ? undefined : date.year;
+    if (date.month === undefined || date.day < 1 || date.day > daysInMonth(date.month, fullYear)) return null;
+  }
+  return date;
+}
+
+const FORMATS: [RegExp, (m: RegExpMatchArray) => PartialDate | null][] = [
+  // 1990-05-15, 1990/05/15, optionally followed by a time
+  [/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[t\s].*)?$/, m => build(m[1], m[2], m[3])],
+  [/^(\d{4})[-/](\d{1,2})$/, m => build(m[1], m[2])],
+  // Numeric day and month: dotted dates are day first (15.05.1990), others month first unless that can't be
+  [/^(\d{1,2})([-/.])(\d{1,2})(?:\2(\d{4}|\d{2}))?$/, m => {
+    const [a, b] = [parseInt(m[1], 10), parseInt(m[3], 10)];
+    const dayFirst = m[2] === '.' || (a > 12 && b <= 12);
+    return dayFirst ? build(m[4], m[3], m[1]) : build(m[4], m[1], m[3]);
+  }],
+  [new RegExp(`^(${MONTH})\\.?\\s+(\\d{1,2})${ORDINAL},?(?:\\s+(\\d{4}))?$`), m => build(m[3], monthNumber(m[1]), m[2])],
+  [new RegExp(`^(?:the\\s+)?(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?(${MONTH})\\.?,?(?:\\s+(\\d{4}))?$`), m => build(m[3], monthNumber(m[2]), m[1])],
+  [new RegExp(`^(${MONTH})\\.?,?\\s+(\\d{4})$`), m => build(m[2], monthNumber(m[1]))],
+  [/^(\d{4})$/, m => build(m[1])],
+  [/^'(\d{2})$/, m => build(m[1])],
+];
+
+/**
+ * Reads a full or partial date: ISO (`1990-05-15`), numeric (`5/15/1990`, `15.05.90`, `5/15`), or written
+ * (`May 15, 1990`, `15th of May`, `May 1990`), or a bare year. Returns null for anything else, including
+ * impossible dates such as `1990-02-30`.
+ */
+export function parseDate(text: string): PartialDate | null {
+  const s = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  for (const [pattern, read] of FORMATS) {
+    const m = s.match(pattern);
+    if (m) return read(m);
+  }
+  return null;
+}
+
+/** A strict ISO `YYYY-MM-DD` date (optionally with a time) as a `Date`, or null. */
+export function parseIsoDate(text: string): Date | null {
+  const date = text.match(/^\d{4}-\d{2}-\d{2}/) ? parseDate(text) : null;
+  if (!date) return null;
+  const parsed = new Date(text.length === 10 ? `${text}T00:00:00Z` : text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function formatDate(date: PartialDate): string {
+  const year = date.year === undefined ? '' : date.twoDigitYear ? `'${String(date.year).padStart(2, '0')}` : String(date.year);
+  const monthDay = date.month === undefined ? ''
+    : `${MONTHS[date.month - 1][0].toUpperCase()}${MONTHS[date.month - 1].slice(1)}${date.day === undefined ? '' : ` ${date.day}`}`;
+  return [monthDay, year].filter(Boolean).join(date.day !== undefined ? ', ' : ' ');
+}
+
+/** Age in whole years on `on`, or null without a full four-digit date. */
+export function ageOn(birth: PartialDate, on: Date): number | null {
+  if (birth.year === undefined || birth.twoDigitYear || birth.month === undefined || birth.day === undefined) return null;
+  const month = on.getUTCMonth() + 1, day = on.getUTCDate();
+  const hadBirthday = month > birth.month || (month === birth.month && day >= birth.day);
+  return on.getUTCFullYear() - birth.year - (hadBirthday ? 0 : 1);
+}
+
+// ============ ZODIAC ============
+// Tropical signs with their first day, starting from Aries; the emoji run U+2648 to U+2653 in the same order
+const ZODIAC: [string, number, number][] = [
+  ['aries', 3, 21], ['taurus', 4, 20], ['gemini', 5, 21], ['cancer', 6, 21], ['leo', 7, 23], ['virgo', 8, 23],
+  ['libra', 9, 23], ['scorpio', 10, 23], ['sagittarius', 11, 22], ['capricorn', 12, 22], ['aquarius', 1, 20], ['pisces', 2, 19],
+];
+
+export function zodiacSign(month: number, day: number): string {
+  // Walk back from the sign that starts latest in the year before the date
+  const key = month * 100 + day;
+  const starts = ZODIAC.map(([sign, m, d]) => ({ sign, key: m * 100 + d })).sort((a, b) => b.key - a.key);
+  return (starts.find(s => s.key <= key) ?? starts[0]).sign;
+}
+
+// ============ BIO EXTRACTION ============
+/** Something a bio says about when its author was born. */
+export type BirthClaim =
+  | { kind: 'date'; date: PartialDate; source: string }
+  | { kind: 'age'; age: number; source: string }
+  | { kind: 'graduation'; year: number; twoDigitYear?: boolean; source: string }
+  | { kind: 'zodiac'; sign: string; source: string };
+
+const DATE_TEXT = [
+  '\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}',
+  '\\d{1,2}[-/.]\\d{1,2}(?:[-/.](?:\\d{4}|\\d{2}))?(?!\\d)',
+  `${MONTH}\\.?\\s+\\d{1,2}${ORDINAL}(?!\\d)(?:,?\\s+\\d{4})?`,
+  `(?:the\\s+)?\\d{1,2}${ORDINAL}\\s+(?:of\\s+)?${MONTH}\\b\\.?(?:,?\\s+\\d{4})?`,
+  `${MONTH}\\.?,?\\s+\\d{4}`,
+  '\\d{4}',
+  "'\\d{2}",
+].join('|');
+// "born", "b.", "DOB", "birthday", "bday" or a birthday-cake emoji (U+1F382), then a date
+const BIRTH_CUE = '(?:\\bborn(?:\\s+(?:on|in))?|\\bb\\.|\\bd\\.?o\\.?b\\.?:?|\\bdate of birth:?|\\bbirthday(?:\\s+is)?:?|\\bb-?day:?|\\uD83C\\uDF82)';
+const BIRTH_DATE = new RegExp(`${BIRTH_CUE}\\s*(${DATE_TEXT})(?![\\w/-])`, 'gi');
+const AGE = /\b(\d{1,2})\s*(?:years?[\s-]*old\b|yrs?[\s-]*old\b|y\/o\b|y\.o\.?|yo\b)|\b(?:age|aged)\s*:?\s*(\d{1,2})\b/gi;
+const CLASS_OF = /\bclass of\s+(?:(\d{4})|'(\d{2}))\b/gi;
+const SIGNS = ZODIAC.map(([sign]) => sign).join('|');
+const ZODIAC_TEXT = new RegExp(
+  `([\\u2648-\\u2653])|\\b(?:zodiac|star sign|sun sign|sign):?\\s*(${SIGNS})\\b|\\b(${SIGNS})\\s+sun\\b`, 'gi',
+);
+
+/** Every birth date, age, graduation year or star sign stated in `text`, in that order. */
+export function extractBirthClaims(text: string): BirthClaim[] {
+  const claims: BirthClaim[] = [];
+  for (const m of text.matchAll(BIRTH_DATE)) {
+    const date = parseDate(m[1]);
+    if (date) claims.push({ kind: 'date', date, source: m[0] });
+  }
+  for (const m of text.matchAll(AGE)) {
+    const age = parseInt(m[1] ?? m[2], 10);
+    if (age > 10 && age < 100) claims.push({ kind: 'age', age, source: m[0] });
+  }
+  for (const m of text.matchAll(CLASS_OF)) {
+    claims.push(m[1]
+      ? { kind: 'graduation', year: parseInt(m[1], 10), source: m[0] }
+      : { kind: 'graduation', year: parseInt(m[2], 10), twoDigitYear: true, source: m[0] });
+  }
+  for (const m of text.matchAll(ZODIAC_TEXT)) {
+    const sign = m[1] ? ZODIAC[m[1].charCodeAt(0) - 0x2648][0] : (m[2] ?? m[3]).toLowerCase();
+    claims.push({ kind: 'zodiac', sign, source: m[0] });
+  }
+  return claims;
+}
+
+/** Difference between two years, comparing only the last two digits when either is a two-digit year. */
+export function yearDistance(a: number, b: number, twoDigit = false): number {
+  if (!twoDigit) return Math.abs(a - b);
+  const d = Math.abs((a % 100) - (b % 100));
+  return Math.min(d, 100 - d);
+}
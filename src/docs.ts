@@ -0,0 +1,133 @@
+// ============ DOCS PAGE ============
+// Self-contained (no CDN) page served at GET /docs. It renders /openapi.json and lets you send requests from the browser.
+export const DOCS_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Profile Matcher API</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #222; }
+  h1 { margin-bottom: 0; }
+  .op { border: 1px solid #ddd; border-radius: 6px; margin: 12px 0; }
+  .op > summary { cursor: pointer; padding: 8px 12px; }
+  .op .body { padding: 0 12px 12px; }
+  .method { display: inline-block; width: 56px; font-weight: 600; text-transform: uppercase; }
+  .get { color: #0a7; } .post { color: #06c; } .delete { color: #c33; }
+  code, textarea, pre { font: 12px/1.4 ui-monospace, monospace; }
+  textarea { width: 100%; min-height: 160px; box-sizing: border-box; }
+  pre { background: #f6f8fa; padding: 8px; overflow: auto; max-height: 400px; }
+  table { border-collapse: collapse; width: 100%; margin: 4px 0 16px; }
+  td, th { border-bottom: 1px solid #eee; padding: 4px 6px; text-align: left; vertical-align: top; }
+  label { display: block; margin: 6px 0; }
+</style>
+</head>
+<body>
+<h1 id="title">Profile Matcher API</h1>
+<p id="description"></p>
+<label>X-API-Key (match routes, when keys are enabled) <input id="apikey" type="password"></label>
+<label>X-Admin-Token (admin routes) <input id="token" type="password"></label>
+<h2>Operations</h2>
+<div id="ops"></div>
+<h2>Schemas</h2>
+<div id="schemas"></div>
+<script>
+function el(tag, attrs, children) {
+  var node = document.createElement(tag);
+  Object.keys(attrs || {}).forEach(function (k) { node[k] = attrs[k]; });
+  (children || []).forEach(function (c) { node.append(c); });
+  return node;
+}
+
+function typeOf(schema) {
+  if (!schema) return 'any';
+  if (schema.$ref) return schema.$ref.split('/').pop();
+  if (schema.anyOf) return schema.anyOf.map(typeOf).join(' | ');
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map(function (v) { return JSON.stringify(v); }).join(' | ');
+  if (schema.type === 'array') return typeOf(schema.items) + '[]';
+  if (schema.type === 'object' && schema.additionalProperties) return 'Record<string, ' + typeOf(schema.additionalProperties) + '>';
+  return schema.type || 'any';
+}
+
+function schemaTable(schema) {
+  if (!schema.properties) return el('p', { textContent: typeOf(schema) + (schema.description ? ' — ' + schema.description : '') });
+  var required = schema.required || [];
+  var rows = Object.keys(schema.properties).map(function (name) {
+    var prop = schema.properties[name];
+    return el('tr', {}, [
+      el('td', {}, [el('code', { textContent: name + (required.indexOf(name) >= 0 ? '' : '?') })]),
+      el('td', {}, [el('code', { textContent: typeOf(prop) })]),
+      el('td', { textContent: prop.description || '' }),
+    ]);
+  });
+  return el('table', {}, [el('tr', {}, [el('th', { textContent: 'Field' }), el('th', { textContent: 'Type' }), el('th', { textContent: 'Description' })])].concat(rows));
+}
+
+function operation(path, method, op) {
+  var params = (op.parameters || []).map(function (p) {
+    var input = el('input', { name: p.name });
+    input.dataset.in = p.in;
+    return el('label', {}, [p.name + ' ', input]);
+  });
+  var body = op.requestBody && op.requestBody.content['application/json'];
+  var textarea = body ? el('textarea', { value: JSON.stringify(body.example || {}, null, 2) }) : null;
+  var accept = el('select', {}, Object.keys((op.responses['200'] || {}).content || { 'application/json': 1 }).map(function (t) {
+    return el('option', { value: t, textContent: t });
+  }));
+  var output = el('pre', { textContent: '' });
+  var send = el('button', { textContent: 'Send', onclick: function () {
+    var inputs = params.map(function (l) { return l.querySelector('input'); });
+    var url = path.replace(/{(\\w+)}/g, function (_, name) {
+      var input = inputs.find(function (i) { return i.name === name; });
+      return encodeURIComponent(input ? input.value : '');
+    });
+    var query = inputs.filter(function (i) { return i.dataset.in === 'query' && i.value; })
+      .map(function (i) { return encodeURIComponent(i.name) + '=' + encodeURIComponent(i.value); });
+    if (query.length) url += '?' + query.join('&');
+    var headers = { Accept: accept.value };
+    if (textarea) headers['Content-Type'] = 'application/json';
+    var token = document.getElementById('token').value;
+    if (token) headers['X-Admin-Token'] = token;
+    var apiKey = document.getElementById('apikey').value;
+    if (apiKey) headers['X-API-Key'] = apiKey;
+    output.textContent = '…';
+    fetch(url, { method: method.toUpperCase(), headers: headers, body: textarea ? textarea.value : undefined })
+      .then(function (res) { return res.text().then(function (text) {
+        try { text = JSON.stringify(JSON.parse(text), null, 2); } catch (e) { /* not JSON, e.g. NDJSON */ }
+        output.textContent = res.status + ' ' + res.statusText + '\\n\\n' + text;
+      }); })
+      .catch(function (err) { output.textContent = String(err); });
+  } });
+
+  var responses = Object.keys(op.responses).map(function (status) {
+    var r = op.responses[status];
+    var schema = r.content && r.content['application/json'] && r.content['application/json'].schema;
+    return el('li', {}, [el('code', { textContent: status }), ' ' + r.description + (schema ? ' — ' : ''), schema ? el('code', { textContent: typeOf(schema) }) : '']);
+  });
+
+  return el('details', { className: 'op' }, [
+    el('summary', {}, [el('span', { className: 'method ' + method, textContent: method }), el('code', { textContent: path }), ' ' + (op.summary || '')]),
+    el('div', { className: 'body' }, [
+      op.description ? el('p', { textContent: op.description }) : '',
+      body ? el('p', {}, ['Body: ', el('code', { textContent: typeOf(body.schema) })]) : '',
+      el('p', { textContent: 'Responses:' }), el('ul', {}, responses),
+    ].concat(params, textarea ? [textarea] : [], [el('label', {}, ['Accept ', accept]), send, output])),
+  ]);
+}
+
+fetch('openapi.json').then(function (res) { return res.json(); }).then(function (doc) {
+  document.getElementById('title').textContent = doc.info.title + ' ' + doc.info.version;
+  document.getElementById('description').textContent = doc.info.description || '';
+  var ops = document.getElementById('ops');
+  Object.keys(doc.paths).forEach(function (path) {
+    Object.keys(doc.paths[path]).forEach(function (method) { ops.append(operation(path, method, doc.paths[path][method])); });
+  });
+  var schemas = document.getElementById('schemas');
+  Object.keys(doc.components.schemas).forEach(function (name) {
+    schemas.append(el('h3', { id: name, textContent: name }), schemaTable(doc.components.schemas[name]));
+  });
+});
+</script>
+</body>
+</html>
+`;
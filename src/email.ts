@@ -0,0 +1,95 @@
+import { organizationKey, organizationNames } from './organizations';
+
+// ============ NORMALIZATION ============
+// Addresses are compared in a canonical form: lowercased, without `+tag` sub-addresses, and for Gmail without dots
+// (Gmail ignores them, so jane.doe@ and janedoe@ reach the same inbox).
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+// Consumer providers: a shared domain here says nothing about two people being related
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'ymail.com', 'hotmail.com', 'hotmail.co.uk', 'outlook.com',
+  'live.com', 'msn.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'protonmail.com', 'proton.me', 'gmx.com', 'gmx.de',
+  'gmx.net', 'web.de', 'mail.com', 'mail.ru', 'yandex.ru', 'yandex.com', 'zoho.com', 'fastmail.com', 'hey.com',
+  'qq.com', '163.com', 'naver.com', 'orange.fr', 'free.fr', 'libero.it', 't-online.de',
+]);
+
+export interface ParsedEmail {
+  /** The text the address was read from. */
+  source: string;
+  local: string;
+  domain: string;
+  /** Canonical `local@domain` used for comparison. */
+  normalized: string;
+}
+
+const EMAIL = /^([a-z0-9._%+-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})$/;
+
+export function parseEmail(raw: string): ParsedEmail | null {
+  const match = raw.trim().toLowerCase().match(EMAIL);
+  if (!match) return null;
+  let [, local, domain] = match;
+  local = local.replace(/\+.*$/, '');
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  if (!local) return null;
+  return { source: raw, local, domain, normalized: `${local}@${domain}` };
+}
+
+/** Canonical form of an address, or '' when it isn't one. */
+export function normalizeEmail(email: string): string {
+  return parseEmail(email)?.normalized ?? '';
+}
+
+export function isFreeMailDomain(domain: string): boolean {
+  return FREE_MAIL_DOMAINS.has(domain.toLowerCase());
+}
+
+// ============ EXTRACTION ============
+// Also reads the common anti-scraping spellings "jane [at] acme [dot] com" and "jane(at)acme.com".
+// Spaces are only allowed around the spelled-out forms, so "me@acme.com. Or" doesn't run on into the next word
+const EMAIL_CANDIDATE =
+  /[a-z0-9._%+-]+(?:@|\s*(?:\[at\]|\(at\)|\{at\})\s*)[a-z0-9-]+(?:(?:\.|\s*(?:\[dot\]|\(dot\)|\{dot\})\s*)[a-z0-9-]+)+/gi;
+
+/** Every address in `text`, de-duplicated by normalized form. */
+export function extractEmails(text: string): ParsedEmail[] {
+  const found = new Map<string, ParsedEmail>();
+  for (const candidate of text.match(EMAIL_CANDIDATE) ?? []) {
+    const plain = candidate
+      .replace(/\s*(?:\[at\]|\(at\)|\{at\})\s*/gi, '@')
+      .replace(/\s*(?:\[dot\]|\(dot\)|\{dot\})\s*/gi, '.');
+    const parsed = parseEmail(plain);
+    if (parsed && !found.has(parsed.normalized)) found.set(parsed.normalized, { ...parsed, source: candidate });
+  }
+  return [...found.values()];
+}
+
+// ============ EMPLOYER DOMAINS ============
+/** The label an organisation registers: `acme` for `mail.acme.co.uk` or `acme.com`. */
+export function domainLabel(domain: string): string {
+  const labels = domain.toLowerCase().split('.');
+  const secondLevel = labels.length >= 3 && /^(co|com|org|net|ac|gov|edu)$/.test(labels[labels.length - 2]);
+  return labels[labels.length - (secondLevel ? 3 : 2)] ?? '';
+}
+
+/** Whether one list of words starts with the other ("acme" and "acme widgets"). */
+function startsWithWords(a: string[], b: string[]): boolean {
+  const [long, short] = a.length >= b.length ? [a, b] : [b, a];
+  return short.every((word, i) => long[i] === word);
+}
+
+/**
+ * Whether a (non-free) email domain plausibly belongs to `employer` under its name, an alias or a former name,
+ * e.g. `acme-corp.com` for "Acme Corp." or `facebook.com` for "Meta". The label has to spell the name or leading
+ * whole words of it (`acme.com` for "Acme Widgets"), so `applebees.com` is not Apple's.
+ */
+export function domainMatchesEmployer(domain: string, employer: string): boolean {
+  if (isFreeMailDomain(domain)) return false;
+  const label = organizationKey(domainLabel(domain)).split(' ');
+  if (label.join('').length < 2) return false;
+  return organizationNames(employer)
+    .filter(n => n.relation === 'name' || n.relation === 'alias' || n.relation === 'former')
+    .map(n => n.key.split(' '))
+    .some(name => name.join('').length >= 2 && (label.join('') === name.join('') || startsWithWords(label, name)));
+}
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { loadScoringModel, parseLabelledPairs } from './calibration';
+import { diffReports, evaluate, formatDiff, formatReport, loadEvaluationReport } from './evaluation';
+import { isScoringProfile, resolveWeights } from './scoring';
+import { CONTEXT_OPTIONS, contextOptions, numberOption, runCommand } from './cli';
+
+// ============ EVALUATION COMMAND ============
+// Scores a labelled gold dataset and reports accuracy, or compares two saved runs, so matcher changes can be
+// judged on the whole dataset rather than on individual test cases.
+const USAGE = [
+  'Usage: npm run evaluate -- --input <pairs.jsonl> [--output <run.json>] [--baseline <run.json>] [--threshold 0.5]',
+  '         [--thresholds 0.3,0.5,0.7] [--worst 10] [--scoring-profile <name> | --model <model.json>]',
+  '         [--reference-date YYYY-MM-DD] [--default-region CC]',
+  '       npm run evaluate -- --diff <base.json> <head.json>',
+].join('\n');
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      input: { type: 'string' },
+      output: { type: 'string' },
+      baseline: { type: 'string' },
+      diff: { type: 'boolean' },
+      threshold: { type: 'string' },
+      thresholds: { type: 'string' },
+      worst: { type: 'string' },
+      'scoring-profile': { type: 'string' },
+      model: { type: 'string' },
+      ...CONTEXT_OPTIONS,
+    },
+  });
+
+  if (values.diff) {
+    if (positionals.length !== 2) throw new Error(USAGE);
+    console.log(formatDiff(diffReports(loadEvaluationReport(positionals[0]), loadEvaluationReport(positionals[1]))));
+    return;
+  }
+  if (!values.input || positionals.length > 0) throw new Error(USAGE);
+
+  const profile = values['scoring-profile'];
+  if (profile !== undefined && !isScoringProfile(profile)) throw new Error(`Unknown scoring profile "${profile}"`);
+  if (profile !== undefined && values.model) throw new Error('Pass either --scoring-profile or --model, not both');
+  const report = evaluate(parseLabelledPairs(fs.readFileSync(values.input, 'utf8')), {
+    weights: resolveWeights(undefined, profile),
+    model: values.model ? loadScoringModel(values.model) : undefined,
+    threshold: numberOption(values.threshold, 'threshold'),
+    thresholds: values.thresholds?.split(',').map(t => numberOption(t.trim(), 'thresholds')!),
+    worst: numberOption(values.worst, 'worst'),
+    ...contextOptions(values),
+  });
+  console.log(formatReport(report));
+  if (values.output) fs.writeFileSync(values.output, JSON.stringify(report, null, 2) + '\n');
+  if (values.baseline) console.log(`\nCompared with ${values.baseline}:\n${formatDiff(diffReports(loadEvaluationReport(values.baseline), report))}`);
+}
+
+runCommand(main);
@@ -0,0 +1,236 @@
+import fs from 'fs';
+import { LabelledPair, MatchFactors, Person, Profile, Weights } from './types';
+import { ScoringOptions, matchProfiles } from './matching';
+import { defaultWeights } from './registry';
+import { ClassificationMetrics, ScoredLabel, classificationMetrics, rocAuc } from './metrics';
+
+// ============ EVALUATION REPORT ============
+// A run of the matchers over a labelled gold dataset, saved as JSON so later runs can be diffed against it.
+export interface ThresholdMetrics extends ClassificationMetrics {
+  threshold: number;
+}
+
+export interface GroupMetrics extends ClassificationMetrics {
+  pairs: number;
+  matches: number;
+  auc: number | null;
+}
+
+/** Outcomes at the report threshold among the pairs a factor applied to. */
+export interface FactorBreakdown extends GroupMetrics {
+  /** Mean factor score over labelled matches and non-matches; null when there are none. */
+  meanScore: { match: number | null; nonMatch: number | null };
+}
+
+export interface ScoredPair {
+  /** Position of the pair in the dataset, from 1. */
+  index: number;
+  id?: string;
+  isMatch: boolean;
+  score: number;
+  person: Person;
+  profile: Profile;
+  factors: MatchFactors;
+}
+
+export interface EvaluationReport {
+  version: 1;
+  createdAt: string;
+  pairs: number;
+  matches: number;
+  /** Threshold the platform and factor breakdowns and the worst cases are taken at. */
+  threshold: number;
+  auc: number | null;
+  thresholds: ThresholdMetrics[];
+  byPlatform: Record<string, GroupMetrics>;
+  byFactor: Record<string, FactorBreakdown>;
+  /** Highest-scoring non-matches and lowest-scoring matches on the wrong side of `threshold`. */
+  worst: { falsePositives: ScoredPair[]; falseNegatives: ScoredPair[] };
+}
+
+export interface EvaluationOptions extends Pick<ScoringOptions, 'defaultRegion' | 'referenceDate' | 'model'> {
+  weights?: Weights;
+  /** Default 0.5. */
+  threshold?: number;
+  /** Thresholds to report precision, recall and F1 at; the report threshold is always included. Default 0.3 to 0.9. */
+  thresholds?: number[];
+  /** How many false positives and false negatives to keep. Default 10. */
+  worst?: number;
+}
+
+export const DEFAULT_THRESHOLDS = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+const roundOrNull = (n: number | null) => (n === null ? null : round4(n));
+
+function rounded<T extends ClassificationMetrics>(metrics: T): T {
+  return { ...metrics, precision: round4(metrics.precision), recall: round4(metrics.recall), f1: round4(metrics.f1) };
+}
+
+function groupMetrics(scored: ScoredLabel[], threshold: number): GroupMetrics {
+  return rounded({
+    pairs: scored.length,
+    matches: scored.filter(s => s.isMatch).length,
+    auc: roundOrNull(rocAuc(scored)),
+    ...classificationMetrics(scored, threshold),
+  });
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? round4(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    for (const k of key(item)) {
+      const group = groups.get(k);
+      if (group) group.push(item); else groups.set(k, [item]);
+    }
+  }
+  return new Map([...groups].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** Scores every labelled pair as `POST /match` would and measures the results against the labels. */
+export function evaluate(pairs: LabelledPair[], options: EvaluationOptions = {}): EvaluationReport {
+  const { weights = defaultWeights(), threshold = 0.5, thresholds = DEFAULT_THRESHOLDS, worst = 10, ...scoring } = options;
+  if (pairs.length === 0) throw new Error('No labelled pairs to evaluate');
+
+  const scored: ScoredPair[] = pairs.map((pair, i) => {
+    const [result] = matchProfiles(pair.person, [pair.profile], weights, scoring);
+    return {
+      index: i + 1, id: pair.id, isMatch: pair.isMatch, score: result.score,
+      person: pair.person, profile: pair.profile, factors: result.factors,
+    };
+  });
+  const numeric = (factors: MatchFactors) => Object.keys(factors).filter(f => typeof factors[f] === 'number');
+
+  const byFactor: Record<string, FactorBreakdown> = {};
+  for (const [factor, group] of groupBy(scored, s => numeric(s.factors))) {
+    const scores = (isMatch: boolean) => group.filter(s => s.isMatch === isMatch).map(s => s.factors[factor] as number);
+    byFactor[factor] = { ...groupMetrics(group, threshold), meanScore: { match: mean(scores(true)), nonMatch: mean(scores(false)) } };
+  }
+
+  const byPlatform: Record<string, GroupMetrics> = {};
+  for (const [platform, group] of groupBy(scored, s => [s.profile.platform.toLowerCase()])) {
+    byPlatform[platform] = groupMetrics(group, threshold);
+  }
+
+  const all = [...new Set([...thresholds, threshold])].sort((a, b) => a - b);
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    pairs: scored.length,
+    matches: scored.filter(s => s.isMatch).length,
+    threshold,
+    auc: roundOrNull(rocAuc(scored)),
+    thresholds: all.map(t => rounded({ threshold: t, ...classificationMetrics(scored, t) })),
+    byPlatform,
+    byFactor,
+    worst: {
+      falsePositives: scored.filter(s => !s.isMatch && s.score >= threshold).sort((a, b) => b.score - a.score).slice(0, worst),
+      falseNegatives: scored.filter(s => s.isMatch && s.score < threshold).sort((a, b) => a.score - b.score).slice(0, worst),
+    },
+  };
+}
+
+export function loadEvaluationReport(file: string): EvaluationReport {
+  const report = JSON.parse(fs.readFileSync(file, 'utf8')) as EvaluationReport;
+  if (report?.version !== 1 || !Array.isArray(report.thresholds)) throw new Error(`${file} is not an evaluation report`);
+  return report;
+}
+
+// ============ COMPARING RUNS ============
+export interface MetricsDelta {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/** Changes from a baseline run to a new one; positive means the new run is higher. */
+export interface EvaluationDiff {
+  /** Thresholds both runs report. */
+  thresholds: (MetricsDelta & { threshold: number })[];
+  auc: number | null;
+  /** At each run's own threshold, for platforms and factors both runs saw. */
+  byPlatform: Record<string, MetricsDelta>;
+  byFactor: Record<string, MetricsDelta>;
+  /** Set when the runs used different datasets, which makes the deltas less meaningful. */
+  warning?: string;
+}
+
+const delta = (base: ClassificationMetrics, head: ClassificationMetrics): MetricsDelta => ({
+  precision: round4(head.precision - base.precision),
+  recall: round4(head.recall - base.recall),
+  f1: round4(head.f1 - base.f1),
+});
+
+function diffGroups<T extends ClassificationMetrics>(base: Record<string, T>, head: Record<string, T>): Record<string, MetricsDelta> {
+  return Object.fromEntries(Object.keys(head).filter(k => k in base).map(k => [k, delta(base[k], head[k])]));
+}
+
+export function diffReports(base: EvaluationReport, head: EvaluationReport): EvaluationDiff {
+  const diff: EvaluationDiff = {
+    thresholds: head.thresholds.flatMap(h => {
+      const b = base.thresholds.find(t => t.threshold === h.threshold);
+      return b ? [{ threshold: h.threshold, ...delta(b, h) }] : [];
+    }),
+    auc: base.auc === null || head.auc === null ? null : round4(head.auc - base.auc),
+    byPlatform: diffGroups(base.byPlatform, head.byPlatform),
+    byFactor: diffGroups(base.byFactor, head.byFactor),
+  };
+  if (base.pairs !== head.pairs || base.matches !== head.matches) {
+    diff.warning = `Runs used different datasets (${base.pairs} pairs, ${base.matches} matches vs ${head.pairs} pairs, ${head.matches} matches)`;
+  }
+  return diff;
+}
+
+// ============ TEXT OUTPUT ============
+const percent = (n: number | null) => (n === null ? 'n/a' : `${(n * 100).toFixed(1)}%`);
+const signed = (n: number) => `${n < 0 ? '-' : '+'}${Math.abs(n * 100).toFixed(1)}%`;
+const describeDelta = (d: MetricsDelta) => `${signed(d.recall)} recall, ${signed(d.precision)} precision, ${signed(d.f1)} F1`;
+
+function describePair(s: ScoredPair): string {
+  const name = typeof s.person.name === 'string' ? s.person.name : s.person.name ? JSON.stringify(s.person.name) : '(no name)';
+  return `#${s.index}${s.id ? ` ${s.id}` : ''}  ${s.score.toFixed(2)}  ${name} vs ${s.profile.platform}/${s.profile.username}`;
+}
+
+const confusionText = (m: ClassificationMetrics) =>
+  `TP ${m.truePositives} FP ${m.falsePositives} FN ${m.falseNegatives} TN ${m.trueNegatives}`;
+const metricsText = (m: GroupMetrics) =>
+  `${m.pairs} pairs, precision ${percent(m.precision)}, recall ${percent(m.recall)}, ${confusionText(m)}`;
+const meanText = (n: number | null) => (n === null ? 'n/a' : n.toFixed(2));
+
+/** A plain-text summary of a report for the terminal. */
+export function formatReport(report: EvaluationReport): string {
+  const lines = [
+    `${report.pairs} pairs (${report.matches} matches), AUC ${report.auc === null ? 'n/a' : report.auc.toFixed(3)}`,
+    '',
+    'threshold  precision  recall  F1',
+    ...report.thresholds.map(t => [t.threshold.toFixed(2).padEnd(10), percent(t.precision).padEnd(10), percent(t.recall).padEnd(7),
+      percent(t.f1), ...t.threshold === report.threshold ? ['<'] : []].join(' ')),
+    '', `By platform at ${report.threshold}:`,
+    ...Object.entries(report.byPlatform).map(([platform, m]) => `  ${platform}: ${metricsText(m)}`),
+    '', `By factor, over the pairs it applied to, at ${report.threshold}:`,
+    ...Object.entries(report.byFactor).map(([factor, m]) =>
+      `  ${factor}: ${metricsText(m)}; mean score ${meanText(m.meanScore.match)} match, ${meanText(m.meanScore.nonMatch)} non-match`),
+  ];
+  const { falsePositives, falseNegatives } = report.worst;
+  if (falsePositives.length) lines.push('', 'Worst false positives:', ...falsePositives.map(s => `  ${describePair(s)}`));
+  if (falseNegatives.length) lines.push('', 'Worst false negatives:', ...falseNegatives.map(s => `  ${describePair(s)}`));
+  return lines.join('\n');
+}
+
+const unchanged = (d: MetricsDelta) => d.precision === 0 && d.recall === 0 && d.f1 === 0;
+
+/** "threshold 0.5: +2.1% recall, -0.3% precision, +0.9% F1" lines for a PR description; unchanged rows are left out. */
+export function formatDiff(diff: EvaluationDiff): string {
+  const lines = diff.warning ? [`Warning: ${diff.warning}`] : [];
+  lines.push(...diff.thresholds.filter(t => !unchanged(t)).map(t => `threshold ${t.threshold}: ${describeDelta(t)}`));
+  if (diff.auc) lines.push(`AUC ${signed(diff.auc)}`);
+  for (const [title, rows] of [['platform', diff.byPlatform], ['factor', diff.byFactor]] as const) {
+    lines.push(...Object.entries(rows).filter(([, d]) => !unchanged(d)).map(([key, d]) => `${title} ${key}: ${describeDelta(d)}`));
+  }
+  if (lines.length === (diff.warning ? 1 : 0)) lines.push('No change in precision, recall, F1 or AUC');
+  return lines.join('\n');
+}
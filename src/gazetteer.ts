@@ -0,0 +1,211 @@
+import gazetteerData from './data/gazetteer.json';
+
+// ============ DATA ============
+// Offline gazetteer: countries and first-level regions keyed by ISO 3166 code ("US", "US-CA"), metro areas keyed
+// by slug, and cities with coordinates. `within` is the most specific region or country code that contains a place.
+interface GazetteerData {
+  version: string;
+  countries: Record<string, { name: string; aliases: string[] }>;
+  regions: Record<string, { name: string; country: string; aliases: string[] }>;
+  metros: Record<string, { name: string; within: string; lat: number; lon: number; aliases: string[] }>;
+  cities: { name: string; within: string; lat: number; lon: number; population: number; metro?: string; aliases?: string[] }[];
+}
+
+export type PlaceKind = 'city' | 'metro' | 'region' | 'country';
+
+export interface Place {
+  kind: PlaceKind;
+  /** ISO code for countries and regions, slug for metros, `name|within` for cities. */
+  id: string;
+  name: string;
+  country: string;
+  region?: string;
+  metro?: string;
+  lat?: number;
+  lon?: number;
+  population?: number;
+}
+
+const data = gazetteerData as GazetteerData;
+const KIND_ORDER: PlaceKind[] = ['city', 'metro', 'region', 'country'];
+const places = new Map<string, Place>();
+const index = new Map<string, Place[]>();
+
+export function normalizePlaceName(name: string): string {
+  return name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.'’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function splitWithin(within: string): { country: string; region?: string } {
+  return within.includes('-') ? { country: within.split('-')[0], region: within } : { country: within };
+}
+
+function addPlace(place: Place, names: string[]): void {
+  places.set(place.id, place);
+  for (const name of new Set(names.map(normalizePlaceName))) {
+    if (!name) continue;
+    if (!index.has(name)) index.set(name, []);
+    index.get(name)!.push(place);
+  }
+}
+
+for (const [code, c] of Object.entries(data.countries)) {
+  addPlace({ kind: 'country', id: code, name: c.name, country: code }, [c.name, code, ...c.aliases]);
+}
+for (const [code, r] of Object.entries(data.regions)) {
+  addPlace({ kind: 'region', id: code, name: r.name, country: r.country, region: code }, [r.name, ...r.aliases]);
+}
+for (const [id, m] of Object.entries(data.metros)) {
+  addPlace({ kind: 'metro', id, name: m.name, ...splitWithin(m.within), metro: id, lat: m.lat, lon: m.lon }, [m.name, ...m.aliases]);
+}
+for (const c of data.cities) {
+  addPlace({
+    kind: 'city', id: `${c.name}|${c.within}`, name: c.name, ...splitWithin(c.within),
+    metro: c.metro, lat: c.lat, lon: c.lon, population: c.population,
+  }, [c.name, ...(c.aliases ?? [])]);
+}
+
+export function getPlace(id: string): Place | undefined {
+  return places.get(id);
+}
+
+/** Whether `name` is itself a known place name or alias ("ME", "New South Wales"), not just text containing one. */
+export function isPlaceName(name: string): boolean {
+  return index.has(normalizePlaceName(name));
+}
+
+/** "Portland (US-OR)"; countries are just their name. */
+export function placeLabel(place: Place): string {
+  return place.kind === 'country' ? place.name : `${place.name} (${place.region ?? place.country})`;
+}
+
+// ============ RESOLUTION ============
+/** Whether `place` lies inside `container` (a region, country or metro). */
+export function isWithin(place: Place, container: Place): boolean {
+  if (place.id === container.id) return false;
+  if (container.kind === 'country') return place.country === container.id;
+  if (container.kind === 'region') return place.region === container.id;
+  if (container.kind === 'metro') return place.kind === 'city' && place.metro === container.id;
+  return false;
+}
+
+function rank(a: Place, b: Place): number {
+  return KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || (b.population ?? 0) - (a.population ?? 0);
+}
+
+/** Candidates for `name` consistent with every qualifier (each a set of possible regions/countries). */
+function pick(name: string, qualifiers: Place[][]): Place | undefined {
+  const candidates = (index.get(name) ?? [])
+    .filter(p => qualifiers.every(q => q.some(container => isWithin(p, container))))
+    .sort(rank);
+  return candidates[0];
+}
+
+function qualifierPlaces(segment: string): Place[] {
+  return (index.get(segment) ?? []).filter(p => p.kind === 'region' || p.kind === 'country');
+}
+
+/** Resolves "Portland OR" style segments whose trailing words qualify the head. */
+function resolveSegment(segment: string, qualifiers: Place[][]): Place | undefined {
+  const direct = pick(segment, qualifiers);
+  if (direct) return direct;
+  const words = segment.split(' ');
+  for (let n = Math.min(3, words.length - 1); n >= 1; n--) {
+    const qualifier = qualifierPlaces(words.slice(-n).join(' '));
+    if (qualifier.length === 0) continue;
+    const place = pick(words.slice(0, -n).join(' '), [qualifier, ...qualifiers]);
+    if (place) return place;
+  }
+  return undefined;
+}
+
+/** Longest known place name inside free text ("Greater Seattle area", "based in Berlin"); short codes are skipped. */
+function resolveWithin(segment: string, qualifiers: Place[][]): Place | undefined {
+  const words = segment.split(' ');
+  for (let n = Math.min(4, words.length); n >= 1; n--) {
+    for (let j = words.length - n; j >= 0; j--) {
+      const phrase = words.slice(j, j + n).join(' ');
+      if (phrase.length < 4) continue;
+      const place = pick(phrase, qualifiers);
+      if (place) return place;
+    }
+  }
+  return undefined;
+}
+
+// Postcodes and words in a qualifier that name no place ("Seattle, WA 98101", "London, UK (remote)")
+const FILLER = /\b(?:\w*\d\w*|area|metro|remote|hybrid)\b/g;
+
+/**
+ * Resolves a free-form location ("Oakland, CA", "Portland, ME", "Bay Area", "Munich, Germany") to the most
+ * specific gazetteer place. Later comma-separated segments act as region/country qualifiers that disambiguate the
+ * first; otherwise cities win over metros, regions and countries, and larger cities over smaller ones.
+ */
+export function resolveLocation(text?: string): Place | undefined {
+  if (!text) return undefined;
+  const segments = text.split(/[,;|/()]/).map(normalizePlaceName)
+    .map((segment, i) => (i > 0 ? segment.replace(FILLER, ' ').replace(/\s+/g, ' ').trim() : segment)).filter(Boolean);
+  if (segments.length === 0) return undefined;
+
+  const qualifiers: Place[][] = [];
+  let i = segments.length - 1;
+  for (; i >= 1; i--) {
+    const q = qualifierPlaces(segments[i]);
+    if (q.length === 0) break;
+    qualifiers.unshift(q);
+  }
+  // A part the gazetteer doesn't know ("San Jose, Costa Rica") may name another namesake, so the head is ambiguous
+  if (i >= 1 && !index.has(segments[i])) return undefined;
+  const head = segments.slice(0, segments.length - qualifiers.length);
+  for (const segment of head) {
+    const place = resolveSegment(segment, qualifiers);
+    if (place) return place;
+  }
+  for (const segment of head) {
+    const place = resolveWithin(segment, qualifiers);
+    if (place) return place;
+  }
+  return qualifiers.length > 0 ? pick(segments[head.length], qualifiers.slice(1)) : undefined;
+}
+
+// ============ PERSON LOCATIONS ============
+// A person may give one location or several: home, work and previous ones, optionally with when they were there.
+export const LOCATION_TYPES = ['home', 'work', 'previous', 'other'] as const;
+export type LocationType = typeof LOCATION_TYPES[number];
+
+export interface DatedLocation {
+  place: string;
+  type?: LocationType;
+  /** Partial dates as `parseDate` reads them ("2019", "2019-06"). */
+  from?: string;
+  to?: string;
+}
+
+export type PersonLocation = string | (string | DatedLocation)[];
+
+export function personLocations(location?: PersonLocation): DatedLocation[] {
+  return [location ?? []].flat().map(l => (typeof l === 'string' ? { place: l } : l)).filter(l => l.place.trim());
+}
+
+/** The location a person is best placed by: their home, else the first one they haven't left. */
+export function primaryLocation(location?: PersonLocation): string | undefined {
+  const list = personLocations(location);
+  const current = list.filter(l => l.type !== 'previous' && !l.to);
+  return (current.find(l => l.type === 'home') ?? current[0] ?? list[0])?.place;
+}
+
+// ============ DISTANCE ============
+const EARTH_RADIUS_KM = 6371;
+
+/** Great-circle distance in km, or undefined if either place has no coordinates (regions, countries). */
+export function distanceKm(a: Place, b: Place): number | undefined {
+  if (a.lat === undefined || a.lon === undefined || b.lat === undefined || b.lon === undefined) return undefined;
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat), dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+export function gazetteerStats(): { version: string; places: number; names: number } {
+  return { version: data.version, places: places.size, names: index.size };
+}
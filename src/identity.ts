@@ -0,0 +1,210 @@
+import {
+  IdentityCluster, IdentityLink, MatchResult, Person, Profile, RejectedProfile, ResolvedProfile, Weights,
+} from './types';
+import { ScoringOptions, getDisplayName, matchName, matchProfiles } from './matching';
+import { defaultWeights } from './registry';
+import { profileId } from './profiles';
+import { DEFAULT_TIER_BOUNDARIES } from './tiers';
+import { extractEmails } from './email';
+import { normalizeHandle, normalizeUrl, platformKey, profileLink } from './urls';
+import { bioClaims } from './bio';
+
+// ============ PROFILE LINKS ============
+// Evidence that two candidate profiles belong to the same individual, independent of the person being matched.
+// Each signal is a probability-like score; they are combined as independent evidence (noisy-or).
+/** How strongly `from`'s bio points at `to`: a link to its profile URL or account, or an @mention of its username. */
+function crossLink(from: Profile, to: Profile, evidence: string[]): number {
+  if (!from.bio) return 0;
+  const source = `${from.platform}/${from.username}`;
+  const url = to.profileUrl ?? to.profile_url, target = url ? normalizeUrl(url) : undefined;
+  const platform = platformKey(to.platform), username = normalizeHandle(to.username);
+  for (const link of bioClaims(from.bio, 'url')) {
+    if (target && normalizeUrl(link.text) === target) {
+      evidence.push(`${source} bio links to ${url}`);
+      return 0.95;
+    }
+    const account = profileLink(link.text);
+    if (account?.platform === platform && account.handle === username) {
+      evidence.push(`${source} bio links to ${to.platform}/${to.username}`);
+      return 0.95;
+    }
+  }
+  // A bare mention may be a friend's account, so it counts for less
+  if (bioClaims(from.bio, 'handle').some(h => normalizeHandle(h.text) === username)) {
+    evidence.push(`${source} bio mentions @${to.username}`);
+    return 0.6;
+  }
+  return 0;
+}
+
+function sharedEmailLink(a: Profile, b: Profile, evidence: string[]): number {
+  if (!a.bio || !b.bio) return 0;
+  const theirs = new Set(extractEmails(b.bio).map(e => e.normalized));
+  const shared = extractEmails(a.bio).find(e => theirs.has(e.normalized));
+  if (!shared) return 0;
+  evidence.push(`both bios list ${shared.normalized}`);
+  return 0.9;
+}
+
+function usernameLink(a: Profile, b: Profile, evidence: string[]): number {
+  const ua = a.username.toLowerCase(), ub = b.username.toLowerCase();
+  if (ua === ub) {
+    evidence.push(`same username "${ua}"`);
+    return ua.length >= 5 ? 0.8 : 0.5; // Short handles collide more often
+  }
+  const fold = (u: string) => u.replace(/[._-]/g, '').replace(/\d+/g, '');
+  if (fold(ua).length >= 4 && fold(ua) === fold(ub)) {
+    evidence.push(`usernames "${ua}" and "${ub}" match ignoring separators and digits`);
+    return 0.6;
+  }
+  return 0;
+}
+
+function displayNameLink(a: Profile, b: Profile, evidence: string[]): number {
+  const na = getDisplayName(a), nb = getDisplayName(b);
+  const score = matchName(na, nb);
+  if (score < 0.9) return 0;
+  evidence.push(`display names "${na}" and "${nb}" agree (${score.toFixed(2)})`);
+  return 0.5 * score; // Many people share a name
+}
+
+/** Link between two profiles, or null when nothing connects them. */
+export function linkProfiles(a: Profile, b: Profile): IdentityLink | null {
+  const evidence: string[] = [];
+  const signals = [
+    usernameLink(a, b, evidence), displayNameLink(a, b, evidence), sharedEmailLink(a, b, evidence),
+    crossLink(a, b, evidence), crossLink(b, a, evidence),
+  ];
+  const confidence = 1 - signals.reduce((p, s) => p * (1 - s), 1);
+  if (confidence === 0) return null;
+  return {
+    source: profileId(a.platform, a.username), target: profileId(b.platform, b.username),
+    kind: 'profile', confidence: round2(confidence), evidence,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// ============ RESOLUTION ============
+export interface ResolveOptions extends ScoringOptions {
+  /** Profiles kept per platform. Default 1. */
+  maxPerPlatform?: number;
+  /** Lowest confidence a profile needs to join the identity. Defaults to the `possible` tier boundary. */
+  minScore?: number;
+  /** Lowest link confidence that puts two profiles in one cluster. Default 0.5. */
+  linkThreshold?: number;
+}
+
+export interface IdentityGraph {
+  profiles: ResolvedProfile[];
+  links: IdentityLink[];
+  clusters: IdentityCluster[];
+  rejected: RejectedProfile[];
+}
+
+function personLink(id: string, result: MatchResult): IdentityLink {
+  const evidence = Object.entries(result.factors)
+    .filter(([, v]) => typeof v === 'number' && v > 0)
+    .map(([factor, v]) => `${factor} ${(v as number).toFixed(2)}`);
+  return { source: 'person', target: id, kind: 'person', confidence: result.score, evidence };
+}
+
+/**
+ * Resolves the candidates into one identity for `person`: profiles are taken greedily by confidence, at most
+ * `maxPerPlatform` per platform. A profile's confidence starts at its match score and is raised (noisy-or) by each
+ * link to a profile already taken, weighted by that profile's confidence, so corroborated accounts win ties
+ * between look-alikes on the same platform.
+ */
+export function resolveIdentity(
+  person: Person, profiles: Profile[], weights: Weights = defaultWeights(), options: ResolveOptions = {},
+): IdentityGraph {
+  const maxPerPlatform = options.maxPerPlatform ?? 1;
+  const minScore = options.minScore ?? (options.tiers ?? DEFAULT_TIER_BOUNDARIES).possible;
+  const linkThreshold = options.linkThreshold ?? 0.5;
+
+  const results = matchProfiles(person, profiles, weights, options);
+  const ids = results.map(r => profileId(r.profile.platform, r.profile.username));
+  const links = new Map<string, IdentityLink>();
+  const linkKey = (i: number, j: number) => (i < j ? `${i}:${j}` : `${j}:${i}`);
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) {
+      const link = linkProfiles(results[i].profile, results[j].profile);
+      if (link) links.set(linkKey(i, j), link);
+    }
+  }
+
+  // Clusters: connected components over links at or above the threshold
+  const parent = results.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (const [key, link] of links) {
+    if (link.confidence < linkThreshold) continue;
+    const [i, j] = key.split(':').map(Number);
+    parent[find(i)] = find(j);
+  }
+  const members = new Map<number, number[]>();
+  results.forEach((_, i) => {
+    const root = find(i);
+    const group = members.get(root);
+    if (group) group.push(i); else members.set(root, [i]);
+  });
+  // Results are sorted by score, so each cluster's first member is its best and clusters come out best first
+  const clusterOf = new Map<number, string>();
+  const clusters: IdentityCluster[] = [...members.values()]
+    .sort((a, b) => a[0] - b[0])
+    .map((group, n) => {
+      const id = `c${n + 1}`;
+      for (const i of group) clusterOf.set(i, id);
+      return {
+        id, profiles: group.map(i => ids[i]),
+        platforms: [...new Set(group.map(i => platformKey(results[i].profile.platform)))], score: results[group[0]].score,
+      };
+    });
+
+  // Greedy selection
+  const confidence = results.map(r => r.score);
+  const remaining = new Set(results.map((_, i) => i));
+  const taken: number[] = [];
+  const rejected: RejectedProfile[] = [];
+  const perPlatform = new Map<string, number>();
+  const reject = (i: number, reason: RejectedProfile['reason']) => rejected.push({
+    id: ids[i], score: results[i].score, confidence: round2(confidence[i]), cluster: clusterOf.get(i)!, reason,
+  });
+
+  while (remaining.size > 0) {
+    let best = -1;
+    for (const i of remaining) if (best < 0 || confidence[i] > confidence[best]) best = i;
+    remaining.delete(best);
+    if (confidence[best] < minScore) {
+      reject(best, 'below_min_score');
+      continue;
+    }
+    const platform = platformKey(results[best].profile.platform);
+    if ((perPlatform.get(platform) ?? 0) >= maxPerPlatform) {
+      reject(best, 'platform_limit');
+      continue;
+    }
+    perPlatform.set(platform, (perPlatform.get(platform) ?? 0) + 1);
+    taken.push(best);
+    for (const i of remaining) {
+      const link = links.get(linkKey(best, i));
+      if (link) confidence[i] = 1 - (1 - confidence[i]) * (1 - link.confidence * confidence[best]);
+    }
+  }
+
+  const identityLinks: IdentityLink[] = taken.map(i => personLink(ids[i], results[i]));
+  for (let a = 0; a < taken.length; a++) {
+    for (let b = a + 1; b < taken.length; b++) {
+      const link = links.get(linkKey(taken[a], taken[b]));
+      if (link) identityLinks.push(link);
+    }
+  }
+
+  return {
+    profiles: taken.map(i => ({ ...results[i], id: ids[i], confidence: round2(confidence[i]), cluster: clusterOf.get(i)! })),
+    links: identityLinks,
+    clusters,
+    rejected,
+  };
+}
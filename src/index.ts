@@ -1,46 +1,37 @@
-import express, { Request, Response } from 'express';
-import { MatchRequestSchema, MatchResponse } from './types';
-import { matchProfiles } from './matching';
-import { ZodError } from 'zod';
-
-const app = express();
-const PORT = process.env.PORT || 3000;
-
-app.use(express.json());
-
-app.post('/match', (req: Request, res: Response) => {
-  try {
-    const data = MatchRequestSchema.parse(req.body);
-    const matches = matchProfiles(data.person, data.profiles);
-    const response: MatchResponse = { matches };
-    res.json(response);
-  } catch (error) {
-    if (error instanceof ZodError) {
-      res.status(400).json({
-        error: 'Validation Error',
-        details: error.errors.map(e => ({ path: e.path.join('.'), message: e.message })),
-      });
-      return;
-    }
-    console.error('Error:', error);
-    res.status(500).json({ error: 'Internal Server Error' });
-  }
-});
-
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-const server = app.listen(PORT, () => {
-  console.log(`Server running at http://localhost:${PORT}`);
-});
-
-// Keep process alive
-process.on('SIGINT', () => {
-  server.close(() => process.exit(0));
-});
-
-// Prevent exit on Windows
-if (process.platform === 'win32') {
-  process.stdin.resume();
-}
+// ============ LIBRARY ENTRYPOINT ============
+// `npm start` runs src/server.ts; this module only exports, so importing it has no side effects.
+export { createApp } from './app';
+export type { AppOptions, Logger } from './app';
+export { ProfileMatcher } from './profile-matcher';
+export type { ProfileMatcherOptions } from './profile-matcher';
+export { ApiKeyStore } from './apikeys';
+export type { ApiKeyStoreOptions } from './apikeys';
+export { ProfileStore } from './profiles';
+export type { CandidateOptions } from './profiles';
+export { registerMatcher, unregisterMatcher, getMatchers, loadMatcherPlugins } from './registry';
+export type { Matcher, MatchContext } from './registry';
+export { addNicknames, loadNicknames, loadNicknamesFile } from './nicknames';
+export { loadOrganizations, loadOrganizationsFile, organizationKey } from './organizations';
+export type { OrganizationData, OrganizationEntry } from './organizations';
+export { LOCATION_TYPES, personLocations, primaryLocation } from './gazetteer';
+export type { DatedLocation, LocationType, PersonLocation } from './gazetteer';
+export { nameForms, normalizeName, parseName } from './names';
+export type { ParsedName, PersonName } from './names';
+export { findJobRoleMentions, findJobRoles, loadJobTitles, loadJobTitlesFile, parseJobTitle } from './job-titles';
+export type { JobRole, JobRoleMention, JobTitleData } from './job-titles';
+export { BIO_CLAIM_KINDS, bioClaims, parseBio } from './bio';
+export { normalizeHandle, normalizeUrl, platformKey, profileLink } from './urls';
+export type { BioClaim, BioSpan, ParsedBio } from './bio';
+export { SCORING_PROFILES, resolveWeights } from './scoring';
+export { loadScoringModel, modelProbability, parseLabelledPairs, trainScoringModel } from './calibration';
+export type { TrainingOptions } from './calibration';
+export { classificationMetrics, rocAuc } from './metrics';
+export { diffReports, evaluate, formatDiff, formatReport } from './evaluation';
+export type { EvaluationDiff, EvaluationOptions, EvaluationReport } from './evaluation';
+export type { ClassificationMetrics, ScoredLabel } from './metrics';
+export { DEFAULT_TIER_BOUNDARIES, TIERS, tierFor } from './tiers';
+export type { Tier, TierBoundaries, TierCounts } from './tiers';
+export { linkProfiles, resolveIdentity } from './identity';
+export type { IdentityGraph, ResolveOptions } from './identity';
+export { buildOpenApiDocument } from './openapi';
+export * from './types';
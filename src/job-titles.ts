@@ -0,0 +1,197 @@
+import fs from 'fs';
+import jobTitleData from './data/job-titles.json';
+
+// ============ TAXONOMY ============
+// Titles are read as a role family (engineering, design, sales, ...) plus a seniority level. Family phrases are either
+// job titles ("software engineer") or departments ("engineering"), which only name a role next to a level
+// ("VP of Engineering") or "team" ("I lead the data team").
+export interface JobTitleData {
+  version: string;
+  /** Single words expanded before matching: `swe` → `software engineer`. */
+  abbreviations: Record<string, string>;
+  levels: Record<string, { rank: number; phrases: string[] }>;
+  families: Record<string, { titles: string[]; departments?: string[]; related?: string[] }>;
+}
+
+type Phrase =
+  | { kind: 'title' | 'department'; family: string }
+  | { kind: 'level'; level: string; rank: number };
+
+const abbreviations = new Map<string, string[]>();
+const phrases = new Map<string, Phrase>();
+const related = new Map<string, Set<string>>();
+let longestPhrase = 1;
+const loadListeners: (() => void)[] = [];
+
+function foldWords(text: string): string[] {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s&\s/g, ' and ').split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Lowercase words of a title, without accents or punctuation and with abbreviations expanded. */
+export function titleWords(text: string): string[] {
+  return foldWords(text).flatMap(w => abbreviations.get(w) ?? [w]);
+}
+
+function addPhrase(text: string, phrase: Phrase): void {
+  const words = titleWords(text);
+  if (words.length === 0) return;
+  phrases.set(words.join(' '), phrase);
+  longestPhrase = Math.max(longestPhrase, words.length);
+}
+
+/** Merges a job title data file (same shape as data/job-titles.json) into the taxonomy. */
+export function loadJobTitles(data: JobTitleData): void {
+  for (const [abbreviation, expansion] of Object.entries(data.abbreviations)) {
+    abbreviations.set(abbreviation.toLowerCase(), foldWords(expansion));
+  }
+  for (const [level, { rank, phrases: list }] of Object.entries(data.levels)) {
+    for (const text of list) addPhrase(text, { kind: 'level', level, rank });
+  }
+  for (const [family, entry] of Object.entries(data.families)) {
+    for (const text of entry.titles) addPhrase(text, { kind: 'title', family });
+    for (const text of entry.departments ?? []) addPhrase(text, { kind: 'department', family });
+    for (const other of entry.related ?? []) {
+      if (!related.has(family)) related.set(family, new Set());
+      if (!related.has(other)) related.set(other, new Set());
+      related.get(family)!.add(other);
+      related.get(other)!.add(family);
+    }
+  }
+  for (const listener of loadListeners) listener();
+}
+
+/** Calls `listener` after each `loadJobTitles`, so results derived from the taxonomy can be dropped. */
+export function onJobTitlesLoaded(listener: () => void): void {
+  loadListeners.push(listener);
+}
+
+export function loadJobTitlesFile(file: string): void {
+  loadJobTitles(JSON.parse(fs.readFileSync(file, 'utf8')) as JobTitleData);
+}
+
+loadJobTitles(jobTitleData);
+
+export function areRelatedFamilies(a: string, b: string): boolean {
+  return related.get(a)?.has(b) ?? false;
+}
+
+// ============ ROLES ============
+export interface JobRole {
+  family: string;
+  level?: string;
+  /** Seniority rank of `level`, from 0 (intern) to 8 (chief). */
+  rank?: number;
+  /** The words the role was read from, abbreviations expanded. */
+  source: string;
+}
+
+type Token = Phrase & { start: number; end: number };
+type LevelToken = Extract<Phrase, { kind: 'level' }> & { start: number; end: number };
+
+/** Splits words into the longest known phrases, left to right, skipping unknown words. */
+function tokenize(words: string[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < words.length) {
+    let found: Token | undefined;
+    for (let n = Math.min(longestPhrase, words.length - i); n >= 1 && !found; n--) {
+      const phrase = phrases.get(words.slice(i, i + n).join(' '));
+      if (phrase) found = { ...phrase, start: i, end: i + n };
+    }
+    if (found) tokens.push(found);
+    i = found ? found.end : i + 1;
+  }
+  return tokens;
+}
+
+const LEVEL_BEFORE = 4;
+const LEVEL_AFTER = 2;
+// Clauses end at separators bios use between roles: | ; • · ( ) and ", " / ". " / " - " / " / "
+const CLAUSE_BREAK = /[|;\n\u2022\u00b7()[\]]|,\s|\.\s|\s[-\u2013\u2014/]\s/;
+
+/** A role found in free text, with the character range of `text` it was read from. */
+export type JobRoleMention = JobRole & { start: number; end: number };
+
+interface Word { word: string; start: number; end: number }
+
+/** `titleWords` of a clause starting at `offset`; words an abbreviation expands to share its range. */
+function wordsAt(clause: string, offset: number): Word[] {
+  const words: Word[] = [];
+  for (const m of clause.matchAll(/\S+/g)) {
+    const start = offset + m.index!, end = start + m[0].length;
+    for (const word of m[0] === '&' ? ['and'] : titleWords(m[0])) words.push({ word, start, end });
+  }
+  return words;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/** Roles with the range of the words (by index) they were read from. */
+function rolesIn(words: string[], strict: boolean): { role: JobRole; start: number; end: number }[] {
+  const tokens = tokenize(words);
+  // A level belongs to the role it precedes ("Senior Engineer", "Head of Design"), else to a role just before it
+  // ("Engineer, Senior"), so "Founder & CTO" keeps the founder's level to itself
+  const owner = (i: number): number | undefined => {
+    let next = i + 1;
+    while (tokens[next]?.kind === 'level') next++;
+    if (tokens[next] && tokens[next].start - tokens[i].end < LEVEL_BEFORE) return next;
+    let prev = i - 1;
+    while (tokens[prev]?.kind === 'level') prev--;
+    return tokens[prev] && tokens[i].start - tokens[prev].end <= LEVEL_AFTER ? prev : undefined;
+  };
+  const levels = new Map<number, LevelToken[]>();
+  tokens.forEach((token, i) => {
+    const o = token.kind === 'level' ? owner(i) : undefined;
+    if (o !== undefined) levels.set(o, [...levels.get(o) ?? [], token as LevelToken]);
+  });
+
+  const roles: { role: JobRole; start: number; end: number }[] = [];
+  tokens.forEach((token, i) => {
+    if (token.kind === 'level') return;
+    const own = levels.get(i) ?? [];
+    if (strict && token.kind === 'department' && own.length === 0 && words[token.end] !== 'team') return;
+    const start = Math.min(token.start, ...own.map(l => l.start));
+    const end = Math.max(token.end, ...own.map(l => l.end));
+    const role: JobRole = { family: token.family, source: words.slice(start, end).join(' ') };
+    const top = own.sort((a, b) => b.rank - a.rank)[0];
+    if (top) {
+      role.level = top.level;
+      role.rank = top.rank;
+    }
+    roles.push({ role, start, end });
+  });
+  return roles;
+}
+
+/** The roles a job title names: "Founder & CTO" is an executive role and a chief-level engineering one. */
+export function parseJobTitle(title: string): JobRole[] {
+  return rolesIn(titleWords(title), false).map(r => r.role);
+}
+
+/**
+ * Roles mentioned in free text such as a bio: titles ("Sr. Dev at Acme") and departments next to a level or
+ * "team" ("Head of Design", "I lead the data team"). Bare department words ("love good design") don't count.
+ */
+export function findJobRoles(text: string): JobRole[] {
+  return findJobRoleMentions(text).map(({ start, end, ...role }) => role);
+}
+
+/** `findJobRoles` with where in `text` each role was found, trimmed of surrounding punctuation. */
+export function findJobRoleMentions(text: string): JobRoleMention[] {
+  // Abbreviation dots ("Sr. Dev") aren't sentence ends; blanking them keeps offsets into `text`
+  const undotted = text.replace(/\b([a-z]+)\.(?=\s)/gi, (m, word: string) => (abbreviations.has(word.toLowerCase()) ? `${word} ` : m));
+  const mentions: JobRoleMention[] = [];
+  let from = 0;
+  for (const m of [...undotted.matchAll(new RegExp(CLAUSE_BREAK.source, 'g')), { index: undotted.length, 0: '' }]) {
+    const words = wordsAt(undotted.slice(from, m.index), from);
+    for (const { role, start, end } of rolesIn(words.map(w => w.word), true)) {
+      let s = words[start].start, e = words[end - 1].end;
+      while (e > s && !WORD_CHAR.test(text[e - 1])) e--;
+      while (s < e && !WORD_CHAR.test(text[s])) s++;
+      mentions.push({ ...role, start: s, end: e });
+    }
+    from = m.index! + m[0].length;
+  }
+  return mentions;
+}
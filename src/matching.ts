@@ -1,7 +1,26 @@
-import { Person, Profile, MatchResult, MatchFactors } from './types';
+import { Person, Profile, MatchResult, MatchFactors, ScoringModel, Weights } from './types';
+import { MatchContext, defaultWeights, getMatchers, registerMatcher } from './registry';
+import { areNicknameVariants, nicknameVariants } from './nicknames';
+import {
+  DatedLocation, PersonLocation, Place, distanceKm, getPlace, isWithin, personLocations, placeLabel, resolveLocation,
+} from './gazetteer';
+import { ParsedPhone, extractPhoneNumbers, inferRegion, parsePhone, samePhone } from './phone';
+import { ParsedEmail, domainMatchesEmployer, isFreeMailDomain, parseEmail } from './email';
+import { BirthClaim, PartialDate, ageOn, formatDate, parseDate, yearDistance, zodiacSign } from './dates';
+import {
+  OrganizationMention, OrganizationRelation, findOrganizationMentions, organizationKey, organizationWords,
+} from './organizations';
+import { ParsedName, PersonName, isNameParticle, nameText, parseName } from './names';
+import { JobRole, areRelatedFamilies, parseJobTitle } from './job-titles';
+import { bioClaims, parseBio } from './bio';
+import { normalizeHandle, normalizeUrl, platformKey, profileLink } from './urls';
+import { TierBoundaries, TierCounts, countTiers, tierFor } from './tiers';
+import { factorLogOdds, modelProbability } from './calibration';
 
 // ============ STRING SIMILARITY ============
-function levenshtein(a: string, b: string): number {
+// Distances count code points, so an emoji or astral-plane letter is one character rather than two
+function levenshtein(text1: string, text2: string): number {
+  const a = Array.from(text1), b = Array.from(text2);
   const matrix: number[][] = [];
   for (let i = 0; i <= b.length; i++) matrix[i] = [i];
   for (let j = 0; j <= a.length; j++) matrix[0][j] = j;
@@ -18,239 +37,877 @@ function levenshtein(a: string, b: string): number {
 function similarity(a: string, b: string): number {
   const trimA = a?.trim(), trimB = b?.trim();
   if (!trimA || !trimB) return 0;
-  const maxLen = Math.max(trimA.length, trimB.length);
+  const maxLen = Math.max(Array.from(trimA).length, Array.from(trimB).length);
   if (maxLen === 0) return 0;
   return 1 - levenshtein(trimA.toLowerCase(), trimB.toLowerCase()) / maxLen;
 }
 
-// ============ NICKNAME MAPPING ============
-const NICKNAMES: Record<string, string[]> = {
-  william: ['will', 'bill', 'billy'], robert: ['rob', 'bob', 'bobby'],
-  richard: ['rick', 'dick', 'rich'], james: ['jim', 'jimmy', 'jamie'],
-  michael: ['mike', 'mikey'], elizabeth: ['liz', 'beth', 'lizzy', 'betty'],
-  jennifer: ['jen', 'jenny'], margaret: ['maggie', 'meg', 'peggy'],
-  katherine: ['kate', 'kathy', 'katie'], jonathan: ['jon', 'john', 'johnny'],
-  christopher: ['chris'], nicholas: ['nick'], alexander: ['alex'],
-  benjamin: ['ben'], daniel: ['dan', 'danny'], matthew: ['matt'],
-  anthony: ['tony'], joseph: ['joe', 'joey'], david: ['dave'],
-};
+// ============ LOCATION ============
+function normalizeLocation(loc: string): string {
+  return loc.toLowerCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+}
 
-function areNicknameVariants(n1: string, n2: string): boolean {
-  const a = n1.toLowerCase(), b = n2.toLowerCase();
-  if (a === b) return true;
-  for (const [formal, nicks] of Object.entries(NICKNAMES)) {
-    const all = new Set([formal, ...nicks]);
-    if (all.has(a) && all.has(b)) return true;
+/** Scores two resolved places by how much they overlap or how far apart they are. */
+function comparePlaces(a: Place, b: Place, evidence?: string[]): number {
+  const la = placeLabel(a), lb = placeLabel(b);
+  if (a.id === b.id) {
+    evidence?.push(`both resolve to ${la}`);
+    return 0.95;
+  }
+  const [inner, outer] = isWithin(a, b) ? [a, b] : isWithin(b, a) ? [b, a] : [];
+  if (inner && outer) {
+    evidence?.push(`${placeLabel(inner)} is in ${outer.name}`);
+    return outer.kind === 'metro' ? 0.9 : outer.kind === 'region' ? 0.7 : 0.5;
+  }
+  if (a.metro && a.metro === b.metro) {
+    evidence?.push(`${la} and ${lb} are both in ${getPlace(a.metro)!.name}`);
+    return 0.9;
+  }
+  const km = (a.kind === 'city' || a.kind === 'metro') && (b.kind === 'city' || b.kind === 'metro') ? distanceKm(a, b) : undefined;
+  if (km !== undefined && km <= 150) {
+    evidence?.push(`${la} is ${Math.round(km)} km from ${lb}`);
+    return km <= 50 ? 0.8 : 0.5;
+  }
+  if (a.region && a.region === b.region) {
+    evidence?.push(`${la} and ${lb} are both in ${getPlace(a.region)!.name}`);
+    return 0.4;
+  }
+  if (a.country === b.country) {
+    evidence?.push(`${la} and ${lb} are both in ${getPlace(a.country)!.name}`);
+    return 0.2;
   }
-  return false;
+  evidence?.push(`${la} and ${lb} are in different countries`);
+  return 0;
 }
 
-// ============ LOCATION ALIASES ============
-const LOCATION_ALIASES: Record<string, string[]> = {
-  'san francisco': ['sf', 'bay area', 'sf bay area'],
-  'new york': ['nyc', 'new york city', 'ny', 'manhattan'],
-  'los angeles': ['la', 'socal'],
-};
+// ============ NAME ALIGNMENT ============
+type NameRole = 'given' | 'middle' | 'family';
 
-function normalizeLocation(loc: string): string {
-  return loc.toLowerCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+interface NameWord {
+  word: string;
+  role: NameRole;
 }
 
-function matchLocationAlias(loc1: string, loc2: string): boolean {
-  const n1 = normalizeLocation(loc1), n2 = normalizeLocation(loc2);
-  for (const [canonical, aliases] of Object.entries(LOCATION_ALIASES)) {
-    const all = [canonical, ...aliases];
-    if (all.some(a => n1.includes(a)) && all.some(a => n2.includes(a))) return true;
-  }
-  return false;
+interface WordPair {
+  a: NameWord;
+  b: NameWord;
+  score: number;
+  how: 'equal' | 'initial' | 'nickname' | 'similar';
 }
 
-// ============ PHONE NORMALIZATION ============
-function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, '').slice(-10); // Keep last 10 digits
+const INITIAL_SCORE = 0.6; // "J. Doe" for Jane Doe
+const INITIALS_SCORE = 0.8; // Two or more initials in order: "MJ Watson" for Mary Jane Watson
+const NICKNAME_SCORE = 0.9;
+const SIMILAR_WORD = 0.75;
+const SWAPPED_FACTOR = 0.9; // Given and family names the other way round, without a comma to say so
+const SINGLE_NAME_FACTOR = 0.7; // Only one side gives more than one word
+
+function nameWords(name: ParsedName, swap = false): NameWord[] {
+  const [given, family]: NameRole[] = swap ? ['family', 'given'] : ['given', 'family'];
+  return [
+    ...name.given.map(word => ({ word, role: given })),
+    ...name.middle.map(word => ({ word, role: 'middle' as const })),
+    ...name.family.map(word => ({ word, role: family })),
+  ];
 }
 
-// ============ DATE PARSING ============
-function parseDate(dateStr: string): Date | null {
-  const d = new Date(dateStr);
-  return isNaN(d.getTime()) ? null : d;
+function compareWords(a: string, b: string): Pick<WordPair, 'score' | 'how'> | null {
+  if (a === b) return { score: 1, how: 'equal' };
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? { score: INITIAL_SCORE, how: 'initial' } : null;
+  if (areNicknameVariants(a, b)) return { score: NICKNAME_SCORE, how: 'nickname' };
+  const sim = similarity(a, b);
+  return sim >= SIMILAR_WORD ? { score: sim, how: 'similar' } : null;
 }
 
-function extractYearFromBio(bio: string): number | null {
-  // Look for birth year patterns like "born 1990", "class of 2012", age patterns
-  const bornMatch = bio.match(/born\s+(?:in\s+)?(\d{4})/i);
-  if (bornMatch) return parseInt(bornMatch[1]);
-  
-  const ageMatch = bio.match(/(\d{1,2})\s*(?:years?\s*old|yo|y\/o)/i);
-  if (ageMatch) {
-    const age = parseInt(ageMatch[1]);
-    if (age > 10 && age < 100) return new Date().getFullYear() - age;
+/** Pairs the words of two names one-to-one, best pairs first and, among equals, words in the same role. */
+function alignWords(a: NameWord[], b: NameWord[]): WordPair[] {
+  const pairs: WordPair[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const compared = compareWords(x.word, y.word);
+      if (compared) pairs.push({ a: x, b: y, ...compared });
+    }
+  }
+  pairs.sort((p, q) => q.score - p.score || Number(q.a.role === q.b.role) - Number(p.a.role === p.b.role));
+  const used = new Set<NameWord>(), aligned: WordPair[] = [];
+  for (const pair of pairs) {
+    if (used.has(pair.a) || used.has(pair.b)) continue;
+    used.add(pair.a).add(pair.b);
+    aligned.push(pair);
   }
-  return null;
+  const initials = aligned.filter(p => p.how === 'initial');
+  if (initials.length >= 2) initials.forEach(p => (p.score = INITIALS_SCORE));
+  return aligned;
 }
 
-// ============ MATCHERS ============
-export function matchName(personName?: string, profileName?: string): number {
-  const name1 = personName?.trim(), name2 = profileName?.trim();
-  if (!name1 || !name2) return 0;
-  const p1 = name1.toLowerCase().split(/\s+/).filter(Boolean);
-  const p2 = name2.toLowerCase().split(/\s+/).filter(Boolean);
-  if (p1.length === 0 || p2.length === 0) return 0;
-  if (p1.join(' ') === p2.join(' ')) return 1;
-  
-  // Check nickname on first name + last name match
-  if (p1.length > 0 && p2.length > 0 && areNicknameVariants(p1[0], p2[0])) {
-    if (p1.length > 1 && p2.length > 1) {
-      const lastSim = similarity(p1[p1.length - 1], p2[p2.length - 1]);
-      if (lastSim > 0.8) return 0.95;
+function describePair(pair: WordPair, evidence: string[]): void {
+  const role = pair.a.role === pair.b.role ? `${pair.a.role} name` : `${pair.a.role}/${pair.b.role} name`;
+  const [a, b] = [pair.a.word, pair.b.word];
+  if (pair.how === 'nickname') areNicknameVariants(a, b, evidence);
+  else if (pair.how === 'initial') evidence.push(`initial "${a.length === 1 ? a : b}" matches ${role} "${a.length === 1 ? b : a}"`);
+  else if (pair.how === 'similar') evidence.push(`${role} "${a}" ≈ "${b}" (${pair.score.toFixed(2)})`);
+  else evidence.push(`${role} "${a}" matches`);
+}
+
+/**
+ * Scores two parsed names by aligning their words rather than their positions: the given names (or a given and a
+ * middle name) and the family names each count for half. Words left over on one side, such as a middle name or
+ * half of a hyphenated family name, cost 5%; leftovers on both sides suggest different names and cost 15%.
+ */
+function alignNames(a: ParsedName, b: ParsedName, evidence: string[]): number {
+  const textA = nameText(a), textB = nameText(b);
+  if (textA === textB) {
+    evidence.push(`exact name match "${textA}"`);
+    return 1;
+  }
+  if (textA.replace(/ /g, '') === textB.replace(/ /g, '')) {
+    evidence.push(`names "${textA}" and "${textB}" differ only in spacing`);
+    return 0.95;
+  }
+
+  let best = 0, bestNotes: string[] = [];
+  for (const swap of [false, true]) {
+    const wordsA = nameWords(a), wordsB = nameWords(b, swap);
+    const pairs = alignWords(wordsA, wordsB);
+    const notes: string[] = [];
+    [...pairs].sort((p, q) => wordsA.indexOf(p.a) - wordsA.indexOf(q.a)).forEach(p => describePair(p, notes));
+    let score: number;
+    if (wordsA.length < 2 || wordsB.length < 2) {
+      if (swap) continue;
+      score = (pairs[0]?.score ?? 0) * SINGLE_NAME_FACTOR;
+    } else {
+      // A middle word can stand in for either: "Mary Jane" may go by Jane, and "García Márquez" is one family name
+      const part = (role: NameRole) => Math.max(0, ...pairs
+        .filter(p => (p.a.role === role || p.b.role === role) && [role, 'middle'].includes(p.a.role) && [role, 'middle'].includes(p.b.role))
+        .map(p => p.score));
+      const given = part('given'), family = part('family');
+      const left = (words: NameWord[], side: 'a' | 'b') => words.filter(w => !isNameParticle(w.word) && !pairs.some(p => p[side] === w));
+      const leftA = left(wordsA, 'a'), leftB = left(wordsB, 'b');
+      score = (given + family) / 2 * (leftA.length && leftB.length ? 0.85 : leftA.length || leftB.length ? 0.95 : 1);
+      const crossed = pairs.some(p => p.a.role !== 'middle' && p.b.role !== 'middle' && p.a.role !== p.b.role);
+      if (swap || crossed) {
+        score *= SWAPPED_FACTOR;
+        notes.push(swap ? 'given and family names in opposite order' : 'name parts in a different order');
+      }
+      const unmatched = [...leftA, ...leftB].map(w => `"${w.word}"`);
+      if (unmatched.length > 0) notes.push(`unmatched name parts ${unmatched.join(', ')}`);
+    }
+    if (score > best) {
+      best = score;
+      bestNotes = notes;
     }
-    return 0.7;
   }
-  
-  // Initial match (J. Doe vs Jane Doe)
-  if (p2[0].length === 1 && p1[0].startsWith(p2[0])) {
-    if (p1.length > 1 && p2.length > 1) {
-      return 0.5 + similarity(p1[p1.length - 1], p2[p2.length - 1]) * 0.3;
+  evidence.push(...bestNotes);
+  return best;
+}
+
+// ============ MATCHERS ============
+// Each matcher takes an optional `evidence` array and pushes human-readable reasons for its score into it.
+export function matchName(personName?: PersonName, profileName?: string, evidence?: string[]): number {
+  const readings1 = personName ? parseName(personName) : [], readings2 = profileName ? parseName(profileName) : [];
+  // Every reading of each name (aliases, German/Nordic spellings) is tried; the best pairing counts
+  let best = 0, bestNotes: string[] = [];
+  for (const a of readings1) {
+    for (const b of readings2) {
+      const notes: string[] = [];
+      let score = alignNames(a, b, notes);
+      const sim = similarity(nameText(a), nameText(b));
+      if (sim > score) {
+        score = sim;
+        notes.splice(0, notes.length, `fuzzy name similarity "${nameText(a)}" vs "${nameText(b)}" ${sim.toFixed(2)}`);
+      }
+      if (score > best || bestNotes.length === 0) {
+        best = score;
+        bestNotes = notes;
+      }
     }
-    return 0.4;
   }
-  
-  return similarity(name1, name2);
+  evidence?.push(...bestNotes);
+  return best;
 }
 
-export function matchLocation(personLoc?: string, profileLoc?: string): number {
+export function matchLocation(personLoc?: string, profileLoc?: string, evidence?: string[]): number {
   if (!personLoc || !profileLoc) return 0;
   const n1 = normalizeLocation(personLoc), n2 = normalizeLocation(profileLoc);
-  if (n1 === n2) return 1;
-  if (matchLocationAlias(personLoc, profileLoc)) return 0.9;
-  if (n1.includes(n2) || n2.includes(n1)) return 0.85;
-  return similarity(n1, n2);
+  if (n1 === n2) {
+    evidence?.push(`exact location match "${n1}"`);
+    return 1;
+  }
+  const place1 = resolveLocation(personLoc), place2 = resolveLocation(profileLoc);
+  if (place1 && place2) return comparePlaces(place1, place2, evidence);
+  if (n1.includes(n2) || n2.includes(n1)) {
+    evidence?.push(`"${n1.includes(n2) ? n2 : n1}" contained in "${n1.includes(n2) ? n1 : n2}"`);
+    return 0.85;
+  }
+  const sim = similarity(n1, n2);
+  evidence?.push(`fuzzy location similarity "${n1}" vs "${n2}" ${sim.toFixed(2)}`);
+  return sim;
 }
 
-export function matchEmployerInBio(employer?: string, bio?: string): number {
+// A previous location (left, or moved away from) says less about where someone is now; a bio mention is looser than
+// the location field
+const PREVIOUS_LOCATION_FACTOR = 0.8;
+const BIO_LOCATION_FACTOR = 0.9;
+
+/** Whether a person's location was left before `referenceDate`. */
+function isPreviousLocation(location: DatedLocation, referenceDate: Date): boolean {
+  if (location.type === 'previous') return true;
+  const to = location.to ? parseDate(location.to) : null;
+  if (to?.year === undefined || to.twoDigitYear) return false;
+  const ref = [referenceDate.getUTCFullYear(), referenceDate.getUTCMonth() + 1, referenceDate.getUTCDate()];
+  const end = [to.year, to.month ?? 12, to.day ?? 31];
+  const i = end.findIndex((n, k) => n !== ref[k]);
+  return i >= 0 && end[i] < ref[i];
+}
+
+function describeLocation(location: DatedLocation): string {
+  const when = location.from || location.to ? ` (${location.from ?? ''}\u2013${location.to ?? ''})` : '';
+  return `${location.type ? `${location.type} ` : ''}location "${location.place}"${when}`;
+}
+
+/**
+ * Compares each of the person's locations with the profile's location, or with the places the bio mentions
+ * ("📍 Berlin", "NYC → SF") when the profile has none, and keeps the best pairing. Previous locations and bio
+ * mentions count for a little less.
+ */
+export function matchLocations(
+  personLoc?: PersonLocation, profileLoc?: string, bio?: string, evidence?: string[], referenceDate: Date = new Date(),
+): number {
+  const own = personLocations(personLoc);
+  const theirs = profileLoc
+    ? [{ text: profileLoc, bio: false, previous: false }]
+    : bio ? bioClaims(bio, 'location').map(c => ({ text: c.text, bio: true, previous: !!c.previous })) : [];
+  let best = 0, bestNotes: string[] = [];
+  for (const location of own) {
+    const previous = isPreviousLocation(location, referenceDate);
+    for (const other of theirs) {
+      const notes: string[] = [];
+      let score = matchLocation(location.place, other.text, notes);
+      if (previous || other.previous) {
+        score *= PREVIOUS_LOCATION_FACTOR;
+        notes.push(`previous location counts ${PREVIOUS_LOCATION_FACTOR}`);
+      }
+      if (other.bio) score *= BIO_LOCATION_FACTOR;
+      // Say which pairing the score is for when there was a choice, or the place came from the bio
+      if (own.length > 1 || theirs.length > 1 || other.bio) {
+        notes.unshift(`${describeLocation(location)} vs ${other.bio ? 'bio' : 'profile'} location "${other.text}"`);
+      }
+      if (score > best || bestNotes.length === 0) {
+        best = score;
+        bestNotes = notes;
+      }
+    }
+  }
+  evidence?.push(...bestNotes);
+  return best;
+}
+
+const RELATION_SCORES: Record<OrganizationRelation, number> = { name: 1, alias: 1, former: 0.9, parent: 0.7, subsidiary: 0.7 };
+const PAST_EMPLOYER_FACTOR = 0.6;
+// Words too common in company names to identify one on their own
+const GENERIC_ORG_WORDS = new Set([
+  'and', 'the', 'of', 'group', 'holdings', 'international', 'global', 'technologies', 'technology', 'systems', 'solutions',
+  'services', 'labs', 'partners', 'bank', 'consulting', 'software', 'digital', 'media',
+]);
+
+function describeMention(mention: OrganizationMention): string {
+  const { name, source, pastCue } = mention;
+  const what = {
+    name: `employer "${source}"`,
+    alias: `"${source}", a name of ${name.organization}`,
+    former: `"${source}", a former name of ${name.organization}`,
+    parent: `"${source}", parent company ${name.organization}`,
+    subsidiary: `"${source}", subsidiary ${name.organization}`,
+  }[name.relation];
+  return `bio mentions ${what}${pastCue ? ` as a past employer ("${pastCue}")` : ''}`;
+}
+
+/**
+ * Looks for the employer in the bio by name, known alias or former name (Facebook ↔ Meta), parent or subsidiary
+ * (Google ↔ Alphabet) or @handle, ignoring legal suffixes. Past employment ("ex-Acme", "previously at Acme") counts
+ * for less than current. Without a full mention, distinctive words of the name give partial credit.
+ */
+export function matchEmployerInBio(employer?: string, bio?: string, evidence?: string[]): number {
   if (!employer || !bio) return 0;
-  const e = employer.toLowerCase(), b = bio.toLowerCase();
-  if (b.includes(e)) return 1;
-  const words = e.split(/\s+/).filter(w => w.length > 2);
-  const matched = words.filter(w => b.includes(w));
+  // The employers and handles the bio names first, then anywhere in it for names without a cue ("Acme fan")
+  const claimed = [...bioClaims(bio, 'employer'), ...bioClaims(bio, 'handle')].flatMap(claim =>
+    findOrganizationMentions(employer, claim.text).map(m => ({ ...m, pastCue: (claim.kind === 'employer' && claim.past) || m.pastCue })));
+  const mentions = claimed.length > 0 ? claimed : parseBio(bio).segments.flatMap(s => findOrganizationMentions(employer, s.text));
+  let best: OrganizationMention | undefined, bestScore = 0;
+  for (const mention of mentions) {
+    const s = RELATION_SCORES[mention.name.relation] * (mention.pastCue ? PAST_EMPLOYER_FACTOR : 1);
+    if (s > bestScore) {
+      best = mention; bestScore = s;
+    }
+  }
+  if (best) {
+    evidence?.push(describeMention(best));
+    return bestScore;
+  }
+
+  const words = organizationKey(employer).split(' ').filter(w => w.length > 2 && !GENERIC_ORG_WORDS.has(w));
+  const bioWords = new Set(organizationWords(bio));
+  const matched = words.filter(w => bioWords.has(w));
+  if (matched.length > 0) evidence?.push(`bio contains employer words ${matched.map(w => `"${w}"`).join(', ')} of ${words.length}`);
   return matched.length > 0 ? 0.5 * (matched.length / words.length) : 0;
 }
 
-export function matchJobTitleInBio(jobTitle?: string, bio?: string): number {
+// Seniority factor by the gap in rank between the person's level and the bio's, when both are known. When only one
+// is, the levels may still differ ("Software Engineer" vs "Staff Engineer"), so the match is only partial
+const SENIORITY_FACTORS = [1, 0.8, 0.6, 0.4];
+const UNKNOWN_LEVEL_FACTOR = 0.7;
+const RELATED_FAMILY_SCORE = 0.5;
+
+function describeRole(role: JobRole): string {
+  return role.level ? `${role.level} ${role.family}` : role.family;
+}
+
+function seniorityFactor(a?: number, b?: number): number {
+  if (a === undefined && b === undefined) return 1;
+  if (a === undefined || b === undefined) return UNKNOWN_LEVEL_FACTOR;
+  return SENIORITY_FACTORS[Math.min(Math.abs(a - b), SENIORITY_FACTORS.length - 1)];
+}
+
+export function matchJobTitleInBio(jobTitle?: string, bio?: string, evidence?: string[]): number {
   if (!jobTitle || !bio) return 0;
   const t = jobTitle.toLowerCase(), b = bio.toLowerCase();
-  if (b.includes(t)) return 1;
-  
+
+  // Compare as role family and seniority, so "SWE" finds "Software Engineer" and "Sr. Dev" a senior developer; this
+  // comes before the text check, since "Staff Software Engineer" contains "Software Engineer" at another level
+  const roles = parseJobTitle(jobTitle), mentions = roles.length > 0 ? bioClaims(bio, 'role').map(c => c.role) : [];
+  if (mentions.length > 0) {
+    let best = 0, bestNote = '';
+    for (const role of roles) {
+      for (const mention of mentions) {
+        const family = role.family === mention.family ? 1 : areRelatedFamilies(role.family, mention.family) ? RELATED_FAMILY_SCORE : 0;
+        const score = family * seniorityFactor(role.rank, mention.rank);
+        if (score > best) {
+          best = score;
+          bestNote = `bio role "${mention.source}" (${describeRole(mention)}) vs job title ${describeRole(role)}`;
+        }
+      }
+    }
+    if (best > 0) evidence?.push(bestNote);
+    return best;
+  }
+
+  if (b.includes(t)) {
+    evidence?.push(`bio mentions job title "${t}"`);
+    return 1;
+  }
+
   // Check individual words (e.g., "Engineer" in "Software Engineer")
   const words = t.split(/\s+/).filter(w => w.length > 3);
   const matched = words.filter(w => b.includes(w));
-  if (matched.length > 0) return 0.6 * (matched.length / words.length);
+  if (matched.length > 0) {
+    evidence?.push(`bio contains job title words ${matched.map(w => `"${w}"`).join(', ')} of ${words.length}`);
+    return 0.6 * (matched.length / words.length);
+  }
   
-  return similarity(t, b) > 0.5 ? similarity(t, b) * 0.5 : 0;
+  const sim = similarity(t, b);
+  if (sim > 0.5) evidence?.push(`fuzzy job title similarity ${sim.toFixed(2)}`);
+  return sim > 0.5 ? sim * 0.5 : 0;
 }
 
-export function matchEmailToUsername(emails?: string | string[], username?: string): number {
+export function matchEmailToUsername(emails?: string | string[], username?: string, evidence?: string[]): number {
   if (!emails || !username) return 0;
   const list = Array.isArray(emails) ? emails : [emails];
   const uNorm = username.toLowerCase().replace(/[._-]/g, '').replace(/\d+/g, '');
   
   for (const email of list) {
-    const eUser = email.split('@')[0].toLowerCase();
+    const eUser = email.split('@')[0].toLowerCase().replace(/\+.*$/, ''); // Drop plus-address tags
     const eNorm = eUser.replace(/[._-]/g, '').replace(/\d+/g, '');
-    if (eUser === username.toLowerCase()) return 1;
-    if (eNorm === uNorm) return 0.9;
-    if (uNorm.includes(eNorm) || eNorm.includes(uNorm)) return 0.7;
+    if (eUser === username.toLowerCase()) {
+      evidence?.push(`username "${username}" equals local part of ${email}`);
+      return 1;
+    }
+    if (eNorm === uNorm) {
+      evidence?.push(`username "${username}" matches ${email} ignoring separators and digits`);
+      return 0.9;
+    }
+    if (uNorm.includes(eNorm) || eNorm.includes(uNorm)) {
+      evidence?.push(`username "${username}" overlaps local part of ${email}`);
+      return 0.7;
+    }
   }
   return 0;
 }
 
-export function matchPhoneInBio(phones?: string | string[], bio?: string): number {
+/**
+ * Compares addresses found in the bio with the person's. The same address (after normalization) is near-certain;
+ * an address at the employer's domain, or at a corporate domain the person also uses, is weaker evidence.
+ */
+export function matchEmailInBio(emails?: string | string[], employer?: string, bio?: string, evidence?: string[]): number {
+  if (!bio) return 0;
+  const found = bioClaims(bio, 'email').map(c => c.email);
+  if (found.length === 0) return 0;
+  const own = [emails ?? []].flat().map(parseEmail).filter((e): e is ParsedEmail => e !== null);
+
+  for (const address of found) {
+    const same = own.find(o => o.normalized === address.normalized);
+    if (same) {
+      evidence?.push(`bio address "${address.source}" is ${same.source}`);
+      return 1;
+    }
+  }
+
+  let best = 0;
+  for (const address of found) {
+    // Gmail locals have already lost their dots, so compare mailbox names without them
+    const sameLocal = own.some(o => o.local.replace(/\./g, '') === address.local.replace(/\./g, ''));
+    let s = 0;
+    if (employer && domainMatchesEmployer(address.domain, employer)) {
+      s = sameLocal ? 0.85 : 0.6;
+      evidence?.push(`bio address "${address.source}" is at ${address.domain}, matching employer "${employer}"`);
+    } else if (own.some(o => o.domain === address.domain && !isFreeMailDomain(o.domain))) {
+      s = 0.5;
+      evidence?.push(`bio address "${address.source}" shares the domain ${address.domain}`);
+    } else if (sameLocal) {
+      s = 0.4;
+      evidence?.push(`bio address "${address.source}" has the same mailbox name as the person's`);
+    }
+    best = Math.max(best, s);
+  }
+  if (best === 0) evidence?.push(`bio addresses ${found.map(f => `"${f.source}"`).join(', ')} don't match`);
+  return best;
+}
+
+/**
+ * Handles a person might pick, without separators or digits, each with how strongly it points at them.
+ * A first name, last name or initials alone are shared by too many people to count.
+ */
+function candidateHandles(name: PersonName): Map<string, number> {
+  const handles = new Map<string, number>();
+  const add = (handle: string, score: number) => {
+    if (score > (handles.get(handle) ?? 0)) handles.set(handle, score);
+  };
+  const letters = (words: string[]) => words.map(w => w.replace(/[^a-z]/g, '')).filter(Boolean);
+  for (const reading of parseName(name)) {
+    const given = letters(reading.given), middle = letters(reading.middle), family = letters(reading.family);
+    if (given.length === 0 || family.length === 0) {
+      const single = [...given, ...family].join('');
+      if (single) [single, ...nicknameVariants(single).filter(n => /^[a-z]+$/.test(n))].forEach((f, i) => add(f, i > 0 ? 0.9 : 1));
+      continue;
+    }
+    const first = given[0];
+    const firsts = [first, ...nicknameVariants(first).filter(n => /^[a-z]+$/.test(n))];
+    const middles = [...given.slice(1), ...middle].map(m => m[0]).join('');
+    // "van beethoven" gives "vanbeethoven" and "beethoven", "smith-doe" gives "smithdoe" and "doe"
+    for (const last of new Set([family.join(''), family[family.length - 1]])) {
+      firsts.forEach((f, i) => {
+        const nick = i > 0 ? 0.9 : 1; // Nicknames are a step removed from the given name
+        add(f + last, nick);
+        add(f + middles + last, 0.95 * nick);
+        add(last + f, 0.95 * nick);
+        add(f + last[0], 0.8 * nick);
+      });
+      add(first[0] + last, 0.9);
+      add(first[0] + middles + last, 0.9);
+      add(last + first[0], 0.85);
+    }
+  }
+  return handles;
+}
+
+/**
+ * Compares a username with handles generated from the person's name (first+last, last+first, initials,
+ * nicknames), ignoring separators and digits. A birth year embedded in the username adjusts the score.
+ */
+export function matchUsername(name?: PersonName, username?: string, dob?: string, evidence?: string[]): number {
+  if (!name || !username) return 0;
+  const handle = username.toLowerCase();
+  const core = handle.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]/g, '');
+  if (!core) return 0;
+
+  let best = 0, bestHandle = '';
+  let how = '';
+  for (const [candidate, weight] of candidateHandles(name)) {
+    let s = 0, kind = '';
+    if (core === candidate) {
+      s = weight; kind = 'matches';
+    } else if (candidate.length >= 5 && core.includes(candidate)) {
+      s = weight * 0.8; kind = 'contains'; // "janedoeofficial"
+    } else if (candidate.length >= 5) {
+      const sim = similarity(core, candidate);
+      if (sim >= 0.85) {
+        s = weight * sim * 0.7; kind = `resembles (${sim.toFixed(2)})`;
+      }
+    }
+    if (s > best) {
+      best = s; bestHandle = candidate; how = kind;
+    }
+  }
+  if (best === 0) return 0;
+  evidence?.push(`username "${username}" ${how} handle "${bestHandle}" from the name`);
+
+  const birth = dob ? parseDate(dob) : null;
+  if (birth?.year !== undefined && !birth.twoDigitYear) {
+    const year = birth.year;
+    const digits: string[] = handle.match(/\d+/g) ?? [];
+    if (digits.includes(String(year))) {
+      evidence?.push(`username contains birth year ${year}`);
+      best = Math.min(1, best + 0.15);
+    } else if (digits.includes(String(year).slice(2))) {
+      evidence?.push(`username contains "${String(year).slice(2)}", the end of birth year ${year}`);
+      best = Math.min(1, best + 0.1);
+    } else if (digits.some(d => /^(19|20)\d\d$/.test(d))) {
+      evidence?.push(`username year ${digits.find(d => /^(19|20)\d\d$/.test(d))} is not birth year ${year}`);
+      best *= 0.8;
+    }
+  }
+  return Math.round(best * 100) / 100;
+}
+
+/**
+ * Looks for the person's numbers among the phone numbers in the bio. National-format numbers are read in
+ * `region` (the person's) and `bioRegion` (the profile's, defaulting to `region`).
+ */
+export function matchPhoneInBio(
+  phones?: string | string[], bio?: string, evidence?: string[], region?: string, bioRegion: string | undefined = region,
+): number {
   if (!phones || !bio) return 0;
-  const list = Array.isArray(phones) ? phones : [phones];
-  const bioDigits = bio.replace(/\D/g, '');
+  const list = (Array.isArray(phones) ? phones : [phones]).map(p => parsePhone(p, region)).filter((p): p is ParsedPhone => p !== null);
+  const claims = bioClaims(bio, 'phone');
+  const bioNumbers = claims.flatMap(c => extractPhoneNumbers(c.text, bioRegion));
   
-  for (const phone of list) {
-    const normalized = normalizePhone(phone);
-    if (normalized.length >= 7 && bioDigits.includes(normalized)) return 1;
-    // Check last 7 digits (local number without area code)
-    if (normalized.length >= 7 && bioDigits.includes(normalized.slice(-7))) return 0.8;
+  for (const parsed of list) {
+    const found = bioNumbers.find(n => samePhone(parsed, n));
+    if (found) {
+      evidence?.push(`bio number "${found.source}" matches ${parsed.e164 ?? parsed.nationalNumber}`);
+      return 1;
+    }
+  }
+
+  // North American numbers are often written without the area code; elsewhere a partial match is too weak to count
+  for (const parsed of list) {
+    if (parsed.countryCode !== '1') continue;
+    const local = parsed.nationalNumber.slice(-7);
+    const found = claims.find(c => c.value.replace(/\D/g, '') === local);
+    if (found) {
+      evidence?.push(`bio contains local number "${found.text}" of ${parsed.e164}`);
+      return 0.8;
+    }
   }
   return 0;
 }
 
-export function matchDateOfBirth(dob?: string, bio?: string): number {
-  if (!dob || !bio) return 0;
-  const personDate = parseDate(dob);
-  if (!personDate) return 0;
-  
-  const personYear = personDate.getFullYear();
-  const bioYear = extractYearFromBio(bio);
-  
-  if (bioYear) {
-    if (bioYear === personYear) return 1;
-    if (Math.abs(bioYear - personYear) <= 1) return 0.7; // Off by 1 year (age calculation)
+/** Scores one claim against the person's birth date, or null when they have no field in common. */
+function scoreBirthClaim(birth: PartialDate, claim: BirthClaim, referenceDate: Date, evidence: string[]): number | null {
+  const stated = `"${claim.source.trim()}"`, born = formatDate(birth);
+  switch (claim.kind) {
+    case 'date': {
+      const date = claim.date;
+      const hasYear = birth.year !== undefined && date.year !== undefined;
+      const hasMonth = birth.month !== undefined && date.month !== undefined;
+      const hasDay = hasMonth && birth.day !== undefined && date.day !== undefined;
+      if (!hasYear && !hasMonth) return null;
+      if ((hasMonth && birth.month !== date.month) || (hasDay && birth.day !== date.day)) {
+        evidence.push(`${stated} does not match ${born}`);
+        return 0;
+      }
+      if (hasYear) {
+        const off = yearDistance(birth.year!, date.year!, birth.twoDigitYear || date.twoDigitYear);
+        if (off > 1) {
+          evidence.push(`${stated} does not match ${born}`);
+          return 0;
+        }
+        evidence.push(off === 0 ? `${stated} matches ${born}` : `${stated} is within one year of ${born}`);
+        return off === 0 ? 1 : 0.7;
+      }
+      // A birthday without a year still narrows it to one day in 365
+      evidence.push(`${stated} matches the ${hasDay ? 'birthday' : 'birth month'} of ${born}`);
+      return hasDay ? 0.8 : 0.3;
+    }
+    case 'age': {
+      const exact = ageOn(birth, referenceDate);
+      if (exact !== null) {
+        const off = Math.abs(exact - claim.age);
+        evidence.push(off === 0 ? `${stated}: ${born} gives age ${exact}` : `${stated} but ${born} gives age ${exact}`);
+        return off === 0 ? 1 : off === 1 ? 0.7 : 0; // Bios go stale, so a year out still counts for something
+      }
+      if (birth.year === undefined || birth.twoDigitYear) return null;
+      // With only a year the age is one of two, depending on whether the birthday has passed
+      const after = referenceDate.getUTCFullYear() - birth.year;
+      const off = claim.age > after ? claim.age - after : claim.age < after - 1 ? after - 1 - claim.age : 0;
+      evidence.push(off === 0 ? `${stated} fits birth year ${birth.year}` : `${stated} does not fit birth year ${birth.year}`);
+      return off === 0 ? 0.9 : off === 1 ? 0.6 : 0;
+    }
+    case 'graduation': {
+      if (birth.year === undefined) return null;
+      // School leavers are about 18 and graduates about 22
+      const age = claim.twoDigitYear || birth.twoDigitYear ? (((claim.year - birth.year) % 100) + 100) % 100 : claim.year - birth.year;
+      const fits = age >= 17 && age <= 23;
+      evidence.push(`${stated} ${fits ? 'fits' : 'does not fit'} birth year ${birth.year}`);
+      return fits ? 0.5 : 0;
+    }
+    case 'zodiac': {
+      if (birth.month === undefined || birth.day === undefined) return null;
+      const sign = zodiacSign(birth.month, birth.day);
+      evidence.push(`${stated} ${sign === claim.sign ? 'matches' : 'is not'} ${born}'s sign (${sign})`);
+      return sign === claim.sign ? 0.4 : 0;
+    }
   }
-  return 0;
 }
 
-// ============ WEIGHTS & SCORING ============
-const WEIGHTS = {
-  name: 0.30,
-  location: 0.12,
-  employer: 0.18,
-  emailUsername: 0.18,
-  jobTitle: 0.10,
-  phone: 0.07,
-  dateOfBirth: 0.05,
-};
+/**
+ * Compares the birth date with what the bio says: dates ("born 5/15/90", "🎂 May 15"), ages ("34 years old"),
+ * graduation years and star signs. Ages are worked out on `referenceDate`. Dates and ages decide the score when
+ * the bio has any that can be compared; graduation years and signs are only hints used without them.
+ */
+export function matchDateOfBirth(dob?: string, bio?: string, evidence?: string[], referenceDate: Date = new Date()): number {
+  if (!dob || !bio) return 0;
+  const birth = parseDate(dob);
+  if (!birth) return 0;
 
-export function calculateMatchScore(person: Person, profile: Profile): MatchResult {
-  const factors: MatchFactors = {};
-  let score = 0, weight = 0;
-  
-  // Get display name (support both camelCase and snake_case)
-  const displayName = profile.displayName || (profile as Record<string, unknown>).display_name as string | undefined;
+  const scored = bioClaims(bio, 'birth').map(({ birth: claim }) => {
+    const reasons: string[] = [];
+    return { claim, score: scoreBirthClaim(birth, claim, referenceDate, reasons), reasons };
+  }).filter(c => c.score !== null);
+  const strong = scored.filter(c => c.claim.kind === 'date' || c.claim.kind === 'age');
+  const used = strong.length > 0 ? strong : scored;
+  for (const c of used) evidence?.push(...c.reasons);
+  return used.reduce((best, c) => Math.max(best, c.score!), 0);
+}
+
+// ============ CROSS-LINKS ============
+// A link from the profile to one of the person's known sites or accounts is near-conclusive; an @mention names no
+// platform, so it may be a friend's account and counts for less
+const SAME_PLATFORM_MENTION_SCORE = 0.8;
+const OTHER_PLATFORM_MENTION_SCORE = 0.6;
+
+/**
+ * Checks whether the profile is one of the person's known accounts (`socialHandles`), or its URL or bio links point
+ * at their `websites` or accounts. Another handle on the profile's platform counts against it. Undefined when the
+ * person has no known sites or accounts, or nothing on the profile can be checked against them.
+ */
+export function matchCrossLinks(person: Person, profile: Profile, evidence?: string[]): number | undefined {
+  const websites = [person.websites ?? []].flat().map(normalizeUrl).filter((u): u is string => !!u);
+  const handles = new Map<string, Set<string>>();
+  for (const [platform, list] of Object.entries(person.socialHandles ?? {})) {
+    const key = platformKey(platform);
+    handles.set(key, new Set([...handles.get(key) ?? [], ...[list].flat().map(normalizeHandle)]));
+  }
+  if (websites.length === 0 && handles.size === 0) return undefined;
+
+  // A site given as a bare domain covers every page on it
+  const knownAs = (url: string): string | undefined => {
+    const normalized = normalizeUrl(url);
+    if (!normalized) return undefined;
+    const site = websites.find(w => normalized === w || (!w.includes('/') && normalized.startsWith(`${w}/`)));
+    if (site) return `the person's website ${site}`;
+    const link = profileLink(normalized);
+    return link && handles.get(link.platform)?.has(link.handle) ? `the person's ${link.platform} account @${link.handle}` : undefined;
+  };
 
-  if (person.name && displayName) {
-    const s = matchName(person.name, displayName);
-    factors.name_match = s;
-    score += s * WEIGHTS.name; weight += WEIGHTS.name;
+  const platform = platformKey(profile.platform), username = normalizeHandle(profile.username);
+  const own = handles.get(platform);
+  if (own?.has(username)) {
+    evidence?.push(`profile is the person's known ${platform} account @${username}`);
+    return 1;
   }
-  if (person.location && profile.location) {
-    const s = matchLocation(person.location, profile.location);
-    factors.location_match = s;
-    score += s * WEIGHTS.location; weight += WEIGHTS.location;
+  const url = profile.profileUrl ?? profile.profile_url, urlMatch = url ? knownAs(url) : undefined;
+  if (urlMatch) {
+    evidence?.push(`profile URL ${url} is ${urlMatch}`);
+    return 1;
   }
-  if (person.employer && profile.bio) {
-    const s = matchEmployerInBio(person.employer, profile.bio);
-    factors.employer_in_bio = s;
-    score += s * WEIGHTS.employer; weight += WEIGHTS.employer;
+  const bioLinks = profile.bio ? bioClaims(profile.bio, 'url') : [];
+  for (const link of bioLinks) {
+    const match = knownAs(link.text);
+    if (match) {
+      evidence?.push(`bio links to ${match} ("${link.text}")`);
+      return 1;
+    }
   }
-  if (person.jobTitle && profile.bio) {
-    const s = matchJobTitleInBio(person.jobTitle, profile.bio);
-    factors.job_title_in_bio = s;
-    score += s * WEIGHTS.jobTitle; weight += WEIGHTS.jobTitle;
+
+  let best = 0;
+  for (const mention of profile.bio ? bioClaims(profile.bio, 'handle') : []) {
+    const handle = normalizeHandle(mention.text);
+    const samePlatform = own?.has(handle);
+    const other = !samePlatform && [...handles].find(([, set]) => set.has(handle))?.[0];
+    const s = samePlatform ? SAME_PLATFORM_MENTION_SCORE : other ? OTHER_PLATFORM_MENTION_SCORE : 0;
+    if (s > best) {
+      best = s;
+      evidence?.push(`bio mentions ${mention.text}, the person's ${samePlatform ? platform : other} handle`);
+    }
   }
-  if (person.email && profile.username) {
-    const s = matchEmailToUsername(person.email, profile.username);
-    factors.email_username_match = s;
-    score += s * WEIGHTS.emailUsername; weight += WEIGHTS.emailUsername;
+  if (best > 0) return best;
+  if (own) {
+    evidence?.push(`the person's ${platform} account is @${[...own].join(', @')}, not @${username}`);
+    return 0;
   }
-  if (person.phone && profile.bio) {
-    const s = matchPhoneInBio(person.phone, profile.bio);
-    factors.phone_in_bio = s;
-    score += s * WEIGHTS.phone; weight += WEIGHTS.phone;
+  return undefined;
+}
+
+// ============ BUILT-IN MATCHERS ============
+// Weights are relative and only factors that apply count, so the original seven keep their baseline weights and
+// later factors are added on the same scale: a pair none of the later factors apply to scores as it always did.
+
+// Get display name (support both camelCase and snake_case)
+export function getDisplayName(profile: Profile): string | undefined {
+  return profile.displayName || (profile as Record<string, unknown>).display_name as string | undefined;
+}
+
+registerMatcher({
+  name: 'name', factor: 'name_match', weight: 0.30,
+  applies: (person, profile) => !!person.name && !!getDisplayName(profile),
+  score: (person, profile, { evidence }) => matchName(person.name, getDisplayName(profile), evidence),
+});
+registerMatcher({
+  name: 'location', factor: 'location_match', weight: 0.12,
+  // Without a profile location, places the bio mentions stand in for it
+  applies: (person, profile) => personLocations(person.location).length > 0
+    && (!!profile.location || (!!profile.bio && bioClaims(profile.bio, 'location').length > 0)),
+  score: (person, profile, { evidence, referenceDate }) =>
+    matchLocations(person.location, profile.location, profile.bio, evidence, referenceDate),
+});
+registerMatcher({
+  name: 'employer', factor: 'employer_in_bio', weight: 0.18,
+  applies: (person, profile) => !!person.employer && !!profile.bio,
+  score: (person, profile, { evidence }) => matchEmployerInBio(person.employer, profile.bio, evidence),
+});
+registerMatcher({
+  name: 'jobTitle', factor: 'job_title_in_bio', weight: 0.10,
+  applies: (person, profile) => !!person.jobTitle && !!profile.bio,
+  score: (person, profile, { evidence }) => matchJobTitleInBio(person.jobTitle, profile.bio, evidence),
+});
+registerMatcher({
+  name: 'emailUsername', factor: 'email_username_match', weight: 0.18,
+  applies: (person, profile) => !!person.email && !!profile.username,
+  score: (person, profile, { evidence }) => matchEmailToUsername(person.email, profile.username, evidence),
+});
+registerMatcher({
+  name: 'email', factor: 'email_in_bio', weight: 0.18, conclusive: 0.95,
+  // Weighted like the other email factor, emailUsername. A bio with no address is no evidence; one with a different address counts against the match. Without the person's
+  // own address only one at the employer's domain says anything, since bios list agents' and booking contacts too
+  applies: (person, profile) => {
+    const found = profile.bio ? bioClaims(profile.bio, 'email') : [];
+    if (person.email) return found.length > 0;
+    return !!person.employer && found.some(c => domainMatchesEmployer(c.email.domain, person.employer!));
+  },
+  score: (person, profile, { evidence }) => matchEmailInBio(person.email, person.employer, profile.bio, evidence),
+});
+registerMatcher({
+  name: 'username', factor: 'username_match', weight: 0.08,
+  // Unrelated handles are common, so only a handle derived from the name counts, and only for the match
+  applies: (person, profile) => matchUsername(person.name, profile.username, person.dateOfBirth) > 0,
+  score: (person, profile, { evidence }) => matchUsername(person.name, profile.username, person.dateOfBirth, evidence),
+});
+registerMatcher({
+  name: 'phone', factor: 'phone_in_bio', weight: 0.07,
+  applies: (person, profile) => !!person.phone && !!profile.bio,
+  score: (person, profile, { evidence, defaultRegion }) => {
+    const region = inferRegion(person.location) ?? defaultRegion;
+    return matchPhoneInBio(person.phone, profile.bio, evidence, region, inferRegion(profile.location) ?? region);
+  },
+});
+registerMatcher({
+  name: 'dateOfBirth', factor: 'dob_match', weight: 0.05,
+  // Most bios say nothing about age, so the factor only applies when there is something to compare
+  applies: (person, profile) => !!person.dateOfBirth && !!profile.bio && bioClaims(profile.bio, 'birth').length > 0,
+  score: (person, profile, { evidence, referenceDate }) => matchDateOfBirth(person.dateOfBirth, profile.bio, evidence, referenceDate),
+});
+registerMatcher({
+  name: 'crossLink', factor: 'cross_link', weight: 0.06, conclusive: 0.95,
+  // A verified link settles the match through `conclusive`; the weight only carries the weaker @mention evidence
+  applies: (person, profile) => matchCrossLinks(person, profile) !== undefined,
+  score: (person, profile, { evidence }) => matchCrossLinks(person, profile, evidence) ?? 0,
+});
+
+// ============ SCORING ============
+export interface ScoringOptions extends Omit<MatchContext, 'evidence'> {
+  /** Attach per-factor evidence and weight contributions to each result. */
+  explain?: boolean;
+  /** Boundaries for each result's `tier`; defaults to `DEFAULT_TIER_BOUNDARIES`. */
+  tiers?: TierBoundaries;
+  /** Trained model that turns the factor scores into a match probability; `weights` are then ignored. */
+  model?: ScoringModel;
+}
+
+export interface MatchFilter {
+  /** Drop results scoring below this. */
+  minScore?: number;
+  /** Keep at most this many results, after `minScore`. */
+  topK?: number;
+}
+
+export function calculateMatchScore(
+  person: Person, profile: Profile, weights: Weights = defaultWeights(), options: ScoringOptions = {},
+): MatchResult {
+  const factors: MatchFactors = {};
+  const explained: { matcher: string; factor: string; score: number; weight: number; evidence: string[] }[] = [];
+  const scores: Record<string, number> = {};
+  let score = 0, weight = 0, floor = 0, floorFactor: string | undefined;
+
+  for (const matcher of getMatchers()) {
+    if (!matcher.applies(person, profile)) continue;
+    const w = weights[matcher.name] ?? matcher.weight;
+    const evidence: string[] | undefined = options.explain ? [] : undefined;
+    const context: MatchContext = { evidence, defaultRegion: options.defaultRegion, referenceDate: options.referenceDate };
+    const s = matcher.score(person, profile, context);
+    factors[matcher.factor] = s;
+    scores[matcher.name] = s;
+    score += s * w; weight += w;
+    if (matcher.conclusive !== undefined && s >= 1 && matcher.conclusive > floor) {
+      floor = matcher.conclusive; floorFactor = matcher.factor;
+      evidence?.push(`conclusive: the match scores at least ${floor}`);
+    }
+    if (evidence) explained.push({ matcher: matcher.name, factor: matcher.factor, score: s, weight: w, evidence });
   }
-  if (person.dateOfBirth && profile.bio) {
-    const s = matchDateOfBirth(person.dateOfBirth, profile.bio);
-    factors.dob_match = s;
-    score += s * WEIGHTS.dateOfBirth; weight += WEIGHTS.dateOfBirth;
+
+  const { model } = options;
+  const raw = model ? modelProbability(model, scores) : weight > 0 ? score / weight : 0;
+  const finalScore = Math.max(Math.round(raw * 100) / 100, floor);
+  // The part of the score a conclusive factor added beyond the weighted result, reported on that factor
+  const lift = finalScore > Math.round(raw * 100) / 100 ? round4(finalScore - raw) : 0;
+  const result: MatchResult = { profile, score: finalScore, tier: tierFor(finalScore, options.tiers), factors };
+  if (options.explain && model) {
+    // A model adds log-odds rather than shares of an average: weight is the coefficient per unit of score
+    result.explanation = {};
+    for (const e of explained) {
+      result.explanation[e.factor] = {
+        matcher: e.matcher,
+        score: e.score,
+        weight: model.factors[e.matcher]?.score ?? 0,
+        contribution: round4(factorLogOdds(model, e.matcher, e.score)),
+        ...(lift && e.factor === floorFactor ? { adjustment: lift } : {}),
+        evidence: e.evidence,
+      };
+    }
+  } else if (options.explain) {
+    // Weights are re-normalized over the factors that applied, so contributions (and any adjustment) add up to the
+    // final score
+    result.explanation = {};
+    for (const e of explained) {
+      const share = weight > 0 ? e.weight / weight : 0;
+      result.explanation[e.factor] = {
+        matcher: e.matcher,
+        score: e.score,
+        weight: round4(share),
+        contribution: round4(e.score * share),
+        ...(lift && e.factor === floorFactor ? { adjustment: lift } : {}),
+        evidence: e.evidence,
+      };
+    }
   }
+  if (options.explain && profile.bio) result.bio = parseBio(profile.bio);
+  return result;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
 
-  const finalScore = weight > 0 ? Math.round((score / weight) * 100) / 100 : 0;
-  return { profile, score: finalScore, factors };
+export function matchProfiles(
+  person: Person, profiles: Profile[], weights: Weights = defaultWeights(), options: ScoringOptions = {},
+): MatchResult[] {
+  return profiles.map(p => calculateMatchScore(person, p, weights, options)).sort((a, b) => b.score - a.score);
 }
 
-export function matchProfiles(person: Person, profiles: Profile[]): MatchResult[] {
-  return profiles.map(p => calculateMatchScore(person, p)).sort((a, b) => b.score - a.score);
+/** Scores and ranks like `matchProfiles`, then filters. `tiers` counts every scored profile, filtered or not. */
+export function rankProfiles(
+  person: Person, profiles: Profile[], weights: Weights = defaultWeights(), options: ScoringOptions & MatchFilter = {},
+): { matches: MatchResult[]; tiers: TierCounts } {
+  const all = matchProfiles(person, profiles, weights, options);
+  const kept = options.minScore === undefined ? all : all.filter(m => m.score >= options.minScore!);
+  return { matches: kept.slice(0, options.topK), tiers: countTiers(all) };
 }
@@ -0,0 +1,72 @@
+// ============ CLASSIFICATION METRICS ============
+// Shared by model training and evaluation: each pair has a score in 0-1 and an analyst label.
+export interface ScoredLabel {
+  score: number;
+  isMatch: boolean;
+}
+
+export interface Confusion {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+}
+
+export interface ClassificationMetrics extends Confusion {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export function confusion(scored: ScoredLabel[], threshold: number): Confusion {
+  const counts: Confusion = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+  for (const { score, isMatch } of scored) {
+    const predicted = score >= threshold;
+    if (predicted && isMatch) counts.truePositives++;
+    else if (predicted) counts.falsePositives++;
+    else if (isMatch) counts.falseNegatives++;
+    else counts.trueNegatives++;
+  }
+  return counts;
+}
+
+/** Precision, recall and F1 of predicting a match at `score >= threshold`; 0 where undefined. */
+export function classificationMetrics(scored: ScoredLabel[], threshold: number): ClassificationMetrics {
+  const counts = confusion(scored, threshold);
+  const { truePositives: tp, falsePositives: fp, falseNegatives: fn } = counts;
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { ...counts, precision, recall, f1 };
+}
+
+/**
+ * Area under the ROC curve: the chance a random match outscores a random non-match, ties counting half.
+ * Null when the pairs are all matches or all non-matches.
+ */
+export function rocAuc(scored: ScoredLabel[]): number | null {
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  const positives = sorted.filter(s => s.isMatch).length, negatives = sorted.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+  // Mann-Whitney U from average ranks of tied scores
+  let rankSum = 0;
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j < sorted.length && sorted[j].score === sorted[i].score) j++;
+    const rank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) if (sorted[k].isMatch) rankSum += rank;
+    i = j;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/** Mean negative log-likelihood of the labels, with probabilities clamped away from 0 and 1. */
+export function logLoss(scored: ScoredLabel[]): number {
+  if (scored.length === 0) return 0;
+  const eps = 1e-12;
+  const total = scored.reduce((sum, { score, isMatch }) => {
+    const p = Math.min(1 - eps, Math.max(eps, score));
+    return sum - Math.log(isMatch ? p : 1 - p);
+  }, 0);
+  return total / scored.length;
+}
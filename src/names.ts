@@ -0,0 +1,213 @@
+import { StructuredName } from './types';
+import transliteration from './data/transliteration.json';
+
+// ============ TRANSLITERATION ============
+// Names are compared in plain Latin letters: accents are dropped, Cyrillic and Greek are transliterated letter by
+// letter, and Chinese, Korean and Japanese names are romanized (pinyin, Revised Romanization with the usual
+// surname spellings, Hepburn). Only common name characters are listed for Chinese; others are left as they are.
+const letters = new Map(Object.entries(transliteration.letters));
+const digraphs = Object.entries(transliteration.digraphs);
+const expanded = new Map(Object.entries(transliteration.expanded));
+const han = new Map(Object.entries(transliteration.han));
+const hanCompoundSurnames = new Set(transliteration.hanCompoundSurnames);
+const hangulSurnames = new Map(Object.entries(transliteration.hangulSurnames));
+const kana = new Map(Object.entries(transliteration.kana));
+
+function latinLetter(char: string): string {
+  const known = letters.get(char);
+  if (known !== undefined) return known;
+  // "ά" → "α" → "a", "é" → "e"
+  return [...char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')].map(c => letters.get(c) ?? c).join('');
+}
+
+function romanizeHan(run: string, first: boolean): string {
+  const pinyin = (chars: string) => [...chars].map(c => han.get(c) ?? c).join('');
+  if (!first || run.length < 2) return pinyin(run);
+  // Family name first: one character, or two for compound surnames such as 欧阳 (Ouyang)
+  const family = hanCompoundSurnames.has(run.slice(0, 2)) && run.length > 2 ? 2 : 1;
+  return `${pinyin(run.slice(0, family))} ${pinyin(run.slice(family))}`;
+}
+
+const INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const VOWELS = [
+  'a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i',
+];
+const FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+
+function hangulSyllable(char: string): string {
+  const code = char.charCodeAt(0) - 0xac00;
+  return INITIALS[Math.floor(code / 588)] + VOWELS[Math.floor((code % 588) / 28)] + FINALS[code % 28];
+}
+
+function romanizeHangul(run: string, first: boolean): string {
+  const syllables = [...run];
+  const surname = hangulSurnames.get(syllables[0]);
+  if (syllables.length === 1) return surname ?? hangulSyllable(run);
+  // 김민준 → "kim minjun": a leading surname keeps its customary spelling (Kim, Lee, Park)
+  if (first && surname && syllables.length <= 4) return `${surname} ${syllables.slice(1).map(hangulSyllable).join('')}`;
+  return syllables.map(hangulSyllable).join('');
+}
+
+function romanizeKana(run: string): string {
+  // Katakana sits 0x60 above the matching hiragana
+  const chars = [...run].map(c => (c >= '\u30a1' && c <= '\u30f6' ? String.fromCharCode(c.charCodeAt(0) - 0x60) : c));
+  let out = '', double = false;
+  for (const c of chars) {
+    if (c === '\u3063') { // Small tsu (っ) doubles the next consonant
+      double = true;
+      continue;
+    }
+    let roman = kana.get(c) ?? (c === '\u30fc' ? '' : c);
+    if ('\u3083\u3085\u3087'.includes(c) && out.endsWith('i')) {
+      // きゃ → kya, しゃ → sha
+      out = out.slice(0, -1);
+      if (/(sh|ch|j)$/.test(out)) roman = roman.slice(1);
+    }
+    if (double && roman) roman = roman.startsWith('ch') ? `t${roman}` : roman[0] + roman;
+    double = false;
+    out += roman;
+  }
+  // Long vowels are written short, as names usually are in Latin script: さとう → "sato", ゆうこ → "yuko"
+  return out.replace(/ou/g, 'o').replace(/uu/g, 'u');
+}
+
+// ============ NORMALIZATION ============
+const HONORIFICS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'sir', 'dame', 'lord', 'lady', 'rev', 'fr', 'hon',
+  'capt', 'col', 'lt', 'maj', 'sgt',
+]);
+const SUFFIXES = new Set([
+  'jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'dds', 'dvm', 'esq', 'mba', 'cpa', 'rn', 'jd', 'obe', 'mbe', 'cbe', 'kbe',
+]);
+
+function foldName(name: string, expand: boolean): string {
+  let hanRuns = 0, hangulRuns = 0;
+  let text = name.normalize('NFKC').toLowerCase()
+    .replace(/[\u3400-\u4dbf\u4e00-\u9fff]+/g, run => ` ${romanizeHan(run, hanRuns++ === 0)} `)
+    .replace(/[\uac00-\ud7a3]+/g, run => ` ${romanizeHangul(run, hangulRuns++ === 0)} `)
+    .replace(/[\u3041-\u3096\u30a1-\u30fa\u30fc]+/g, run => ` ${romanizeKana(run)} `);
+  if (expand) text = text.replace(/[äöüøåæ]/g, c => expanded.get(c)!);
+  for (const [pair, latin] of digraphs) text = text.replaceAll(pair, latin); // Greek ου → ou
+  text = [...text].map(latinLetter).join('')
+    .replace(/['\u2018\u2019\u02bc`\u00b4]/g, '') // O'Brien → obrien
+    .replace(/[^\p{L}]+/gu, ' ');
+  const tokens = text.split(' ').filter(Boolean);
+  while (tokens.length > 1 && HONORIFICS.has(tokens[0])) tokens.shift();
+  while (tokens.length > 1 && SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.join(' ');
+}
+
+/**
+ * A name in lowercase Latin letters separated by single spaces: accents folded, other scripts transliterated,
+ * apostrophes dropped, hyphens and other punctuation, emoji and decorative symbols read as spaces, and
+ * honorifics (Dr., Mrs.) and suffixes (Jr., III, PhD) removed. Styled letters (𝓙𝓪𝓷𝓮, ᴊᴀɴᴇ) read as plain ones.
+ */
+export function normalizeName(name: string): string {
+  return foldName(name, false);
+}
+
+/**
+ * The normalized name, plus its German/Nordic transliteration when that differs (Müller → "muller", "mueller";
+ * Søren → "soren", "soeren"), since people spell such names both ways.
+ */
+export function nameForms(name: string): string[] {
+  const plain = foldName(name, false), long = foldName(name, true);
+  if (!plain) return [];
+  return plain === long ? [plain] : [plain, long];
+}
+
+// ============ NAME STRUCTURE ============
+/** A person's name as a request gives it: free text, or its parts. */
+export type PersonName = string | StructuredName;
+
+/** A name split into normalized words; an initial is a single letter. */
+export interface ParsedName {
+  given: string[];
+  middle: string[];
+  family: string[];
+  /** Written family name first, as East Asian names are. */
+  familyFirst?: boolean;
+}
+
+// Words that belong to the family name that follows them ("Ludwig van Beethoven", "Ana de la Cruz")
+const PARTICLES = new Set([
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'das', 'dos', 'du', 'la', 'le', 'ter', 'ten', 'bin', 'ibn', 'al', 'el',
+]);
+export function isNameParticle(word: string): boolean {
+  return PARTICLES.has(word);
+}
+
+// Chinese, Japanese and Korean names are written family name first
+const EAST_ASIAN = /[\u3041-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7a3]/;
+
+/** Words of each space-separated part of `text`; "MJ" and "M.J." read as the initials m, j. */
+function nameGroups(text: string, expand: boolean): string[][] {
+  const lowercase = /\p{Ll}/u.test(text);
+  return text.split(/\s+/).map(part => {
+    if (/^(?:\p{L}\.){2,}$/u.test(part) || (lowercase && /^\p{Lu}{2,3}$/u.test(part))) {
+      return [...part.replace(/\./g, '')].map(c => foldName(c, expand)).filter(Boolean);
+    }
+    return foldName(part, expand).split(' ').filter(Boolean);
+  }).filter(words => words.length > 0);
+}
+
+const isAffix = (words: string[], affixes: Set<string>) => words.length === 1 && affixes.has(words[0]);
+
+function parseNameText(text: string, expand: boolean): ParsedName | null {
+  if (EAST_ASIAN.test(text) && !/[a-z]/i.test(text)) {
+    const words = foldName(text, expand).split(' ').filter(Boolean);
+    if (words.length === 0) return null;
+    return words.length === 1
+      ? { given: words, middle: [], family: [] }
+      : { given: [words[1]], middle: words.slice(2), family: [words[0]], familyFirst: true };
+  }
+
+  // "Doe, Jane" puts the family name first, but "Jane Doe, PhD" doesn't
+  const [before, ...rest] = text.split(',');
+  const after = nameGroups(rest.join(' '), expand).filter(g => !isAffix(g, SUFFIXES));
+  let groups = nameGroups(before, expand);
+  let familyParts = 0;
+  if (after.length > 0 && groups.length > 0) {
+    familyParts = groups.length;
+    groups = [...after, ...groups];
+  }
+  while (groups.length > 1 && isAffix(groups[0], HONORIFICS)) groups.shift();
+  while (!familyParts && groups.length > 1 && isAffix(groups[groups.length - 1], SUFFIXES)) groups.pop();
+  if (groups.length === 0) return null;
+  if (groups.length === 1) return { given: groups[0], middle: [], family: [] };
+
+  let start = familyParts ? groups.length - familyParts : groups.length - 1;
+  while (!familyParts && start > 1 && isAffix(groups[start - 1], PARTICLES)) start--;
+  return { given: groups[0], middle: groups.slice(1, start).flat(), family: groups.slice(start).flat() };
+}
+
+function parseStructured(name: StructuredName, expand: boolean): ParsedName | null {
+  const words = (text?: string) => (text ? foldName(text, expand).split(' ').filter(Boolean) : []);
+  const parsed = { given: words(name.given), middle: [name.middle ?? []].flat().flatMap(words), family: words(name.family) };
+  return parsed.given.length + parsed.family.length > 0 ? parsed : null;
+}
+
+/** The words of a name in the order it is written. */
+export function nameText(name: ParsedName): string {
+  const given = [...name.given, ...name.middle];
+  return (name.familyFirst ? [...name.family, ...given] : [...given, ...name.family]).join(' ');
+}
+
+/**
+ * Ways to read a name: the name itself, then any aliases, each also in its German/Nordic transliteration when
+ * that differs. Free text is split into given, middle and family names: "Last, First" order, East Asian family-first
+ * order, family name particles ("van Beethoven") and hyphenated family names are recognized.
+ */
+export function parseName(name: PersonName): ParsedName[] {
+  const readings = new Map<string, ParsedName>();
+  for (const expand of [false, true]) {
+    const sources = typeof name === 'string'
+      ? [parseNameText(name, expand)]
+      : [parseStructured(name, expand), ...(name.aliases ?? []).map(alias => parseNameText(alias, expand))];
+    for (const parsed of sources) {
+      const key = parsed && JSON.stringify(parsed);
+      if (parsed && !readings.has(key!)) readings.set(key!, parsed);
+    }
+  }
+  return [...readings.values()];
+}
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import nicknameData from './data/nicknames.json';
+
+// ============ NICKNAME INDEX ============
+// Each group is a canonical given name with its nicknames and cross-language equivalents. A name may sit in
+// many groups (alex → alexander, alexandra, alejandro). Two names are variants when one is the canonical name of a
+// group holding the other: two nicknames of the same name aren't (Ron and Erin are both short for Aaron).
+export interface NicknameData {
+  version: string;
+  groups: Record<string, string[]>;
+}
+
+const groups = new Map<string, Set<string>>();
+const index = new Map<string, Set<string>>();
+const versions: string[] = [];
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Adds nicknames to the group for `canonical`, creating it if needed. */
+export function addNicknames(canonical: string, nicknames: string[]): void {
+  const key = normalizeName(canonical);
+  if (!key) return;
+  let group = groups.get(key);
+  if (!group) {
+    group = new Set([key]);
+    groups.set(key, group);
+  }
+  for (const name of [key, ...nicknames.map(normalizeName)]) {
+    if (!name) continue;
+    group.add(name);
+    if (!index.has(name)) index.set(name, new Set());
+    index.get(name)!.add(key);
+  }
+}
+
+/** Merges a nickname data file (same shape as data/nicknames.json) into the index. */
+export function loadNicknames(data: NicknameData): void {
+  for (const [canonical, nicknames] of Object.entries(data.groups)) addNicknames(canonical, nicknames);
+  versions.push(data.version);
+}
+
+export function loadNicknamesFile(file: string): void {
+  loadNicknames(JSON.parse(fs.readFileSync(file, 'utf8')) as NicknameData);
+}
+
+loadNicknames(nicknameData);
+
+// ============ LOOKUP ============
+/** Canonical names of the groups `name` belongs to. */
+export function nicknameGroups(name: string): string[] {
+  return [...(index.get(normalizeName(name)) ?? [])];
+}
+
+/** The canonical names of groups holding `name`, and the names in its own group, excluding itself. */
+export function nicknameVariants(name: string): string[] {
+  const key = normalizeName(name);
+  const variants = new Set([...index.get(key) ?? [], ...groups.get(key) ?? []]);
+  variants.delete(key);
+  return [...variants].sort();
+}
+
+export function areNicknameVariants(n1: string, n2: string, evidence?: string[]): boolean {
+  const a = normalizeName(n1), b = normalizeName(n2);
+  if (a === b) return true;
+  const canonical = index.get(b)?.has(a) ? a : index.get(a)?.has(b) ? b : undefined;
+  if (canonical === undefined) return false;
+  evidence?.push(`nickname pair "${a}" ↔ "${b}" (${canonical})`);
+  return true;
+}
+
+export function nicknameStats(): { version: string; groups: number; names: number } {
+  return { version: versions.join('+'), groups: groups.size, names: index.size };
+}
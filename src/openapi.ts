@@ -0,0 +1,468 @@
+import { z, ZodTypeAny } from 'zod';
+import {
+  ApiKeyCreateSchema, BatchItemSchema, BatchMatchRequestSchema, BatchMatchResponseSchema, BatchItemResultSchema, BatchSummarySchema,
+  BioClaimSchema, BioSpanSchema, DatedLocationSchema, FactorExplanationSchema, IdentityClusterSchema, IdentityLinkSchema, MatchRequestSchema,
+  MatchResponseSchema, MatchResultSchema, NicknameEntrySchema, ParsedBioSchema, PersonSchema, ProfileSchema,
+  ProfileUpsertResponseSchema, ProfileUpsertSchema, RejectedProfileSchema, ResolveRequestSchema, ResolveResponseSchema,
+  ResolvedProfileSchema, SearchRequestSchema, SearchResponseSchema, StructuredNameSchema, TierBoundariesSchema, TierCountsSchema,
+  ValidationErrorSchema, ValidationIssueSchema, WeightsSchema,
+} from './types';
+import { SCORING_PROFILES } from './scoring';
+import { getMatchers } from './registry';
+
+// ============ ZOD → JSON SCHEMA ============
+// Covers the Zod types used in src/types.ts. Refinements and transforms are documented by their input schema.
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENTS: [string, ZodTypeAny][] = [
+  ['StructuredName', StructuredNameSchema],
+  ['DatedLocation', DatedLocationSchema],
+  ['Person', PersonSchema],
+  ['Profile', ProfileSchema],
+  ['Weights', WeightsSchema],
+  ['MatchRequest', MatchRequestSchema],
+  ['TierBoundaries', TierBoundariesSchema],
+  ['TierCounts', TierCountsSchema],
+  ['FactorExplanation', FactorExplanationSchema],
+  ['BioSpan', BioSpanSchema],
+  ['BioClaim', BioClaimSchema],
+  ['ParsedBio', ParsedBioSchema],
+  ['MatchResult', MatchResultSchema],
+  ['MatchResponse', MatchResponseSchema],
+  ['BatchItem', BatchItemSchema],
+  ['BatchMatchRequest', BatchMatchRequestSchema],
+  ['BatchItemResult', BatchItemResultSchema],
+  ['BatchSummary', BatchSummarySchema],
+  ['BatchMatchResponse', BatchMatchResponseSchema],
+  ['ResolveRequest', ResolveRequestSchema],
+  ['ResolvedProfile', ResolvedProfileSchema],
+  ['RejectedProfile', RejectedProfileSchema],
+  ['IdentityLink', IdentityLinkSchema],
+  ['IdentityCluster', IdentityClusterSchema],
+  ['ResolveResponse', ResolveResponseSchema],
+  ['SearchRequest', SearchRequestSchema],
+  ['SearchResponse', SearchResponseSchema],
+  ['ProfileUpsert', ProfileUpsertSchema],
+  ['ProfileUpsertResponse', ProfileUpsertResponseSchema],
+  ['NicknameEntry', NicknameEntrySchema],
+  ['ApiKeyCreate', ApiKeyCreateSchema],
+  ['ValidationIssue', ValidationIssueSchema],
+  ['ValidationError', ValidationErrorSchema],
+];
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+/** Converts `schema` to JSON Schema, emitting `$ref`s for any nested schema listed in COMPONENTS. */
+export function zodToJsonSchema(schema: ZodTypeAny, root = true): JsonSchema {
+  if (!root) {
+    const named = COMPONENTS.find(([, s]) => s === schema);
+    if (named) return ref(named[0]);
+  }
+  const json = convert(schema);
+  if (schema.description) json.description = schema.description;
+  return json;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap(), false);
+  if (schema instanceof z.ZodNullable) return { anyOf: [zodToJsonSchema(schema.unwrap(), false), { type: 'null' }] };
+  if (schema instanceof z.ZodDefault) return { ...zodToJsonSchema(schema._def.innerType, false), default: schema._def.defaultValue() };
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType(), false);
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value, false);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, ...(required.length ? { required } : {}) };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array', items: zodToJsonSchema(schema.element, false),
+      ...(minLength ? { minItems: minLength.value } : {}), ...(maxLength ? { maxItems: maxLength.value } : {}),
+    };
+  }
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema, false) };
+  if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map((o: ZodTypeAny) => zodToJsonSchema(o, false)) };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json.minLength = check.value;
+      if (check.kind === 'max') json.maxLength = check.value;
+      if (check.kind === 'email') json.format = 'email';
+      if (check.kind === 'url') json.format = 'uri';
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') json.type = 'integer';
+      if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) return {};
+  throw new Error(`Unsupported schema type for OpenAPI: ${schema._def.typeName}`);
+}
+
+// ============ DOCUMENT ============
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { error: { type: 'string' }, message: { type: 'string' } },
+  required: ['error'],
+};
+
+const NICKNAME_LOOKUP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    groups: { type: 'array', items: { type: 'string' }, description: 'Canonical names of the groups `name` belongs to.' },
+    variants: { type: 'array', items: { type: 'string' }, description: 'Every name sharing a group with `name`.' },
+  },
+  required: ['name', 'groups', 'variants'],
+};
+
+const validationFailed = {
+  description: 'The request body failed validation. `details` lists one entry per problem.',
+  content: jsonContent(ref('ValidationError')),
+};
+const serverError = { description: 'Unexpected server error', content: jsonContent(ERROR_SCHEMA) };
+const keyErrors = {
+  401: { description: 'Missing or invalid API key', content: jsonContent(ERROR_SCHEMA) },
+  403: { description: 'API key has been revoked', content: jsonContent(ERROR_SCHEMA) },
+  429: {
+    description: 'Rate limit or daily quota exceeded',
+    headers: { 'Retry-After': { description: 'Seconds until the request may be retried', schema: { type: 'integer' } } },
+    content: jsonContent(ERROR_SCHEMA),
+  },
+};
+const API_KEY_INFO_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    revokedAt: { type: 'string', format: 'date-time' },
+    rateLimit: {
+      type: 'object',
+      properties: { requests: { type: 'integer' }, windowSeconds: { type: 'integer' } },
+      required: ['requests', 'windowSeconds'],
+    },
+    dailyQuota: { type: 'integer' },
+  },
+  required: ['id', 'name', 'createdAt', 'rateLimit', 'dailyQuota'],
+};
+const USAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { requests: { type: 'integer' }, profiles: { type: 'integer', description: 'Profiles scored' } },
+  required: ['requests', 'profiles'],
+};
+const adminErrors = {
+  401: { description: 'Missing or wrong `X-Admin-Token`', content: jsonContent(ERROR_SCHEMA) },
+  403: { description: 'Admin API is disabled because `ADMIN_TOKEN` is not set', content: jsonContent(ERROR_SCHEMA) },
+};
+
+const PROFILE_PARAMETERS = [
+  { name: 'platform', in: 'path', required: true, schema: { type: 'string' } },
+  { name: 'username', in: 'path', required: true, schema: { type: 'string' } },
+];
+
+const MATCH_EXAMPLE = {
+  person: { name: 'Jane Doe', email: 'jane.doe@example.com', location: 'San Francisco, CA', employer: 'Acme Corp' },
+  profiles: [
+    { platform: 'linkedin', username: 'janedoe', displayName: 'Jane Doe', bio: 'Engineer at Acme Corp', location: 'SF Bay Area' },
+    { platform: 'twitter', username: 'jdoe_nyc', displayName: 'J. Doe', location: 'NYC' },
+  ],
+};
+
+/**
+ * OpenAPI 3.1 document for the API. Built per call so that plugin matchers and scoring profiles loaded at startup
+ * show up as the accepted `weights` keys and `scoringProfile` values.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of COMPONENTS) schemas[name] = zodToJsonSchema(schema);
+
+  schemas.Weights.propertyNames = { enum: getMatchers().map(m => m.name) };
+  for (const name of ['MatchRequest', 'BatchMatchRequest', 'ResolveRequest', 'SearchRequest']) {
+    const properties = schemas[name].properties as Record<string, JsonSchema>;
+    properties.scoringProfile.enum = Object.keys(SCORING_PROFILES);
+  }
+  // Batch items are parsed one by one so bad items fail alone; document the shape they're checked against
+  (schemas.BatchMatchRequest.properties as Record<string, JsonSchema>).items.items = ref('BatchItem');
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Profile Matcher API',
+      version: '1.0.0',
+      description: 'Matches person identifying information against candidate social media profiles.',
+    },
+    paths: {
+      '/match': {
+        post: {
+          summary: 'Score candidate profiles against a person',
+          operationId: 'match',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          requestBody: { required: true, content: { 'application/json': { schema: ref('MatchRequest'), example: MATCH_EXAMPLE } } },
+          responses: {
+            200: { description: 'Profiles ranked by score, highest first', content: jsonContent(ref('MatchResponse')) },
+            400: validationFailed,
+            ...keyErrors,
+            500: serverError,
+          },
+        },
+      },
+      '/match/batch': {
+        post: {
+          summary: 'Score many people in one request',
+          description: 'Invalid items are reported in their own result instead of failing the batch. '
+            + 'Send `Accept: application/x-ndjson` to stream one `BatchItemResult` per line, followed by a final '
+            + '`{ summary, weights }` line.',
+          operationId: 'matchBatch',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          requestBody: { required: true, content: jsonContent(ref('BatchMatchRequest')) },
+          responses: {
+            200: {
+              description: 'One result per item, in request order',
+              content: {
+                'application/json': { schema: ref('BatchMatchResponse') },
+                'application/x-ndjson': { schema: { type: 'string' } },
+              },
+            },
+            400: validationFailed,
+            ...keyErrors,
+            413: { description: 'Body larger than `BATCH_BODY_LIMIT`' },
+            500: serverError,
+          },
+        },
+      },
+      '/match/resolve': {
+        post: {
+          summary: 'Resolve candidate profiles into one cross-platform identity',
+          description: 'Keeps at most `maxPerPlatform` profiles per platform, preferring profiles corroborated by '
+            + 'shared usernames, display names and bio cross-links with profiles already chosen. Every candidate is also '
+            + 'placed in a cluster of profiles that appear to belong to the same individual.',
+          operationId: 'matchResolve',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          requestBody: { required: true, content: { 'application/json': { schema: ref('ResolveRequest'), example: MATCH_EXAMPLE } } },
+          responses: {
+            200: { description: 'The identity graph', content: jsonContent(ref('ResolveResponse')) },
+            400: validationFailed,
+            ...keyErrors,
+            500: serverError,
+          },
+        },
+      },
+      '/match/search': {
+        post: {
+          summary: 'Find and score stored profiles for a person',
+          description: 'Candidates are retrieved from the profile store by shared name tokens (including nickname groups), '
+            + 'usernames derived from the person\'s name and emails, and phone numbers, then scored like `/match`.',
+          operationId: 'matchSearch',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: ref('SearchRequest'), example: { person: MATCH_EXAMPLE.person } } },
+          },
+          responses: {
+            200: { description: 'Best-scoring stored profiles, highest first', content: jsonContent(ref('SearchResponse')) },
+            400: validationFailed,
+            ...keyErrors,
+            500: serverError,
+          },
+        },
+      },
+      '/profiles': {
+        post: {
+          summary: 'Add or replace stored profiles',
+          description: 'Profiles are identified by `platform` and `username`, case-insensitively.',
+          operationId: 'upsertProfiles',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: ref('ProfileUpsert'), example: { profiles: MATCH_EXAMPLE.profiles } } },
+          },
+          responses: {
+            200: { description: 'How many profiles were created and replaced', content: jsonContent(ref('ProfileUpsertResponse')) },
+            400: validationFailed,
+            ...keyErrors,
+            413: { description: 'Body larger than `BATCH_BODY_LIMIT`' },
+          },
+        },
+      },
+      '/profiles/{platform}/{username}': {
+        get: {
+          summary: 'Fetch a stored profile',
+          operationId: 'getProfile',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          parameters: PROFILE_PARAMETERS,
+          responses: {
+            200: { description: 'The profile', content: jsonContent(ref('Profile')) },
+            404: { description: 'No such profile' },
+            ...keyErrors,
+          },
+        },
+        delete: {
+          summary: 'Remove a stored profile',
+          operationId: 'deleteProfile',
+          security: [{ apiKey: [] }, { bearer: [] }],
+          parameters: PROFILE_PARAMETERS,
+          responses: { 204: { description: 'Removed' }, 404: { description: 'No such profile' }, ...keyErrors },
+        },
+      },
+      '/admin/nicknames': {
+        get: {
+          summary: 'Nickname dictionary version and size',
+          operationId: 'getNicknameStats',
+          security: [{ adminToken: [] }],
+          responses: {
+            200: {
+              description: 'Dictionary statistics',
+              content: jsonContent({
+                type: 'object',
+                properties: { version: { type: 'string' }, groups: { type: 'integer' }, names: { type: 'integer' } },
+                required: ['version', 'groups', 'names'],
+              }),
+            },
+            ...adminErrors,
+          },
+        },
+        post: {
+          summary: 'Add nicknames at runtime',
+          operationId: 'addNicknames',
+          security: [{ adminToken: [] }],
+          requestBody: { required: true, content: jsonContent(ref('NicknameEntry')) },
+          responses: {
+            201: { description: 'The updated groups for `name`', content: jsonContent(NICKNAME_LOOKUP_SCHEMA) },
+            400: validationFailed,
+            ...adminErrors,
+          },
+        },
+      },
+      '/admin/nicknames/{name}': {
+        get: {
+          summary: 'Look up the nickname groups of a name',
+          operationId: 'getNickname',
+          security: [{ adminToken: [] }],
+          parameters: [{ name: 'name', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { 200: { description: 'Groups and variants', content: jsonContent(NICKNAME_LOOKUP_SCHEMA) }, ...adminErrors },
+        },
+      },
+      '/admin/keys': {
+        get: {
+          summary: 'List API keys',
+          operationId: 'listApiKeys',
+          security: [{ adminToken: [] }],
+          responses: {
+            200: {
+              description: 'All keys, including revoked ones',
+              content: jsonContent({ type: 'object', properties: { keys: { type: 'array', items: API_KEY_INFO_SCHEMA } } }),
+            },
+            ...adminErrors,
+          },
+        },
+        post: {
+          summary: 'Issue an API key',
+          operationId: 'createApiKey',
+          security: [{ adminToken: [] }],
+          requestBody: { required: true, content: jsonContent(ref('ApiKeyCreate')) },
+          responses: {
+            201: {
+              description: 'The new key. `key` is shown only once; only its hash is stored.',
+              content: jsonContent({
+                ...API_KEY_INFO_SCHEMA,
+                properties: { key: { type: 'string' }, ...(API_KEY_INFO_SCHEMA.properties as JsonSchema) },
+              }),
+            },
+            400: validationFailed,
+            ...adminErrors,
+          },
+        },
+      },
+      '/admin/keys/{id}': {
+        delete: {
+          summary: 'Revoke an API key',
+          operationId: 'revokeApiKey',
+          security: [{ adminToken: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { 204: { description: 'Revoked' }, 404: { description: 'No such active key' }, ...adminErrors },
+        },
+      },
+      '/admin/keys/{id}/usage': {
+        get: {
+          summary: 'Usage of an API key by UTC day',
+          operationId: 'getApiKeyUsage',
+          security: [{ adminToken: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'from', in: 'query', schema: { type: 'string', format: 'date' } },
+            { name: 'to', in: 'query', schema: { type: 'string', format: 'date' } },
+          ],
+          responses: {
+            200: {
+              description: 'Per-day and total usage',
+              content: jsonContent({
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  days: { type: 'object', additionalProperties: USAGE_SCHEMA },
+                  total: USAGE_SCHEMA,
+                },
+              }),
+            },
+            400: validationFailed,
+            404: { description: 'No such key' },
+            ...adminErrors,
+          },
+        },
+      },
+      '/health': {
+        get: {
+          summary: 'Liveness check',
+          operationId: 'health',
+          responses: {
+            200: {
+              description: 'The server is up',
+              content: jsonContent({
+                type: 'object',
+                properties: { status: { const: 'ok' }, timestamp: { type: 'string', format: 'date-time' } },
+                required: ['status', 'timestamp'],
+              }),
+            },
+          },
+        },
+      },
+      '/openapi.json': {
+        get: { summary: 'This document', operationId: 'openapi', responses: { 200: { description: 'OpenAPI 3.1 document' } } },
+      },
+      '/docs': {
+        get: {
+          summary: 'Interactive API documentation',
+          operationId: 'docs',
+          responses: { 200: { description: 'HTML page', content: { 'text/html': { schema: { type: 'string' } } } } },
+        },
+      },
+    },
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Required when the server has API keys enabled' },
+        bearer: { type: 'http', scheme: 'bearer', description: 'The same API key sent as `Authorization: Bearer <key>`' },
+        adminToken: { type: 'apiKey', in: 'header', name: 'X-Admin-Token' },
+      },
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import organizationData from './data/organizations.json';
+
+// ============ NORMALIZATION ============
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited', 'plc', 'gmbh',
+  'ag', 'kg', 'sa', 'se', 'nv', 'bv', 'pty', 'sarl', 'srl', 'spa', 'oy', 'ab', 'kk',
+]);
+
+/** Lowercase words of `text` without accents or punctuation; a free-standing `&` reads as "and". */
+export function organizationWords(text: string): string[] {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s&\s/g, ' and ').split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Comparison key for an organisation name: words without a leading "the" or legal suffixes ("Acme Corp." → "acme"). */
+export function organizationKey(name: string): string {
+  const words = organizationWords(name);
+  while (words.length > 1 && (LEGAL_SUFFIXES.has(words[words.length - 1]) || words[words.length - 1] === 'and')) words.pop();
+  if (words.length > 1 && words[0] === 'the') words.shift();
+  return words.join(' ');
+}
+
+// ============ ORGANIZATION INDEX ============
+// Known organisations with their aliases, former names and parent company, so "Facebook" finds "Meta" and
+// "Google" finds "Alphabet". Names are indexed by key; a name claimed by two organisations goes to the later one.
+export interface OrganizationEntry {
+  aliases?: string[];
+  formerNames?: string[];
+  /** Name of the parent organisation. */
+  parent?: string;
+}
+
+export interface OrganizationData {
+  version: string;
+  organizations: Record<string, OrganizationEntry>;
+}
+
+interface Organization {
+  name: string;
+  /** Keys of the name and its aliases. */
+  names: Set<string>;
+  formerNames: Set<string>;
+  parent?: string;
+  subsidiaries: Set<string>;
+}
+
+const organizations = new Map<string, Organization>();
+const index = new Map<string, string>();
+
+function organizationFor(name: string): Organization {
+  const key = organizationKey(name);
+  let org = organizations.get(key);
+  if (!org) {
+    org = { name, names: new Set([key]), formerNames: new Set(), subsidiaries: new Set() };
+    organizations.set(key, org);
+    index.set(key, key);
+  }
+  return org;
+}
+
+const loadListeners: (() => void)[] = [];
+
+/** Merges an organisation data file (same shape as data/organizations.json) into the index. */
+export function loadOrganizations(data: OrganizationData): void {
+  for (const [name, entry] of Object.entries(data.organizations)) {
+    const org = organizationFor(name);
+    const key = organizationKey(name);
+    for (const alias of entry.aliases ?? []) {
+      org.names.add(organizationKey(alias));
+      index.set(organizationKey(alias), key);
+    }
+    for (const former of entry.formerNames ?? []) {
+      org.formerNames.add(organizationKey(former));
+      index.set(organizationKey(former), key);
+    }
+    if (entry.parent) {
+      const parent = organizationFor(entry.parent);
+      org.parent = organizationKey(entry.parent);
+      parent.subsidiaries.add(key);
+    }
+  }
+  for (const listener of loadListeners) listener();
+}
+
+/** Calls `listener` after each `loadOrganizations`, so results derived from the index can be dropped. */
+export function onOrganizationsLoaded(listener: () => void): void {
+  loadListeners.push(listener);
+}
+
+export function loadOrganizationsFile(file: string): void {
+  loadOrganizations(JSON.parse(fs.readFileSync(file, 'utf8')) as OrganizationData);
+}
+
+loadOrganizations(organizationData);
+
+// ============ LOOKUP ============
+export type OrganizationRelation = 'name' | 'alias' | 'former' | 'parent' | 'subsidiary';
+
+export interface OrganizationName {
+  key: string;
+  /** How the name relates to the employer it was looked up for. */
+  relation: OrganizationRelation;
+  /** Display name of the known organisation the name belongs to. */
+  organization?: string;
+}
+
+/** Names a bio might use for `employer`: its own, then known aliases, former names, parent and subsidiaries. */
+export function organizationNames(employer: string): OrganizationName[] {
+  const key = organizationKey(employer);
+  if (!key) return [];
+  const names = new Map<string, OrganizationName>([[key, { key, relation: 'name' }]]);
+  const add = (keys: Iterable<string>, relation: OrganizationRelation, organization: string) => {
+    for (const k of keys) if (!names.has(k)) names.set(k, { key: k, relation, organization });
+  };
+  const canonical = index.get(key);
+  const org = canonical ? organizations.get(canonical)! : undefined;
+  if (org) {
+    add(org.names, 'alias', org.name);
+    add(org.formerNames, 'former', org.name);
+    const parent = org.parent ? organizations.get(org.parent) : undefined;
+    if (parent) add(parent.names, 'parent', parent.name);
+    for (const sub of org.subsidiaries) add(organizations.get(sub)!.names, 'subsidiary', organizations.get(sub)!.name);
+  }
+  return [...names.values()];
+}
+
+// ============ BIO MENTIONS ============
+export interface OrganizationMention {
+  name: OrganizationName;
+  /** The bio text that matched: the name's words or an @handle. */
+  source: string;
+  /** The word marking it as a past employer ("ex", "formerly", "alum"), if any. */
+  pastCue?: string;
+}
+
+// Clauses end at separators bios use between roles: | ; • · ( ) and ", " / ". " / " - " / " / "
+export const CLAUSE_BREAK = /[|;\n\u2022\u00b7()[\]]|,\s|\.\s|\s[-\u2013\u2014/]\s/;
+const PAST_BEFORE = new Set(['ex', 'former', 'formerly', 'previously', 'prev', 'past', 'worked', 'was', 'left', 'alum', 'alumni']);
+const PAST_AFTER = new Set(['alum', 'alumni', 'alumnus', 'alumna']);
+const CUE_WINDOW = 4;
+
+/** The word in `before` (nearest first, within a few words) or right `after` a name that marks it as a past employer. */
+export function pastEmploymentCue(before: string[], after: string[]): string | undefined {
+  const cue = before.slice(-CUE_WINDOW).reverse().find(w => PAST_BEFORE.has(w));
+  return cue ?? (PAST_AFTER.has(after[0]) ? after[0] : undefined);
+}
+
+/**
+ * Where `text` mentions `employer` or a related organisation, matched on whole words (so "Meta" is not found in
+ * "metadata") or as an @handle ("@acmecorp"). A mention preceded by a cue such as "ex-" or "previously", or
+ * followed by "alum", is marked as past employment.
+ */
+export function findOrganizationMentions(employer: string, text: string): OrganizationMention[] {
+  const names = organizationNames(employer);
+  const handles = new Map<string, OrganizationName>();
+  for (const name of names) handles.set(name.key.replace(/ /g, ''), name);
+  const full = organizationWords(employer).join('');
+  if (!handles.has(full)) handles.set(full, names[0]); // "@acmecorp" for "Acme Corp"
+
+  const mentions: OrganizationMention[] = [];
+  for (const clause of text.split(CLAUSE_BREAK)) {
+    const words = organizationWords(clause);
+    for (const name of names) {
+      const target = name.key.split(' ');
+      for (let i = 0; i + target.length <= words.length; i++) {
+        if (!target.every((w, j) => words[i + j] === w)) continue;
+        // Report the bio's own spelling where it survives ("AT&T" rather than "at t")
+        const spelling = new RegExp(`(?<![a-z0-9])${target.join('[^a-z0-9]+')}(?![a-z0-9])`, 'i');
+        const source = clause.match(spelling)?.[0] ?? name.key;
+        mentions.push({ name, source, pastCue: pastEmploymentCue(words.slice(0, i), words.slice(i + target.length)) });
+      }
+    }
+    for (const m of clause.matchAll(/@([\w.-]{3,})/g)) {
+      const handle = m[1].toLowerCase().replace(/[._-]/g, '');
+      const name = handles.get(handle);
+      if (!name || handle === name.key) continue; // Found as a word above
+      const before = organizationWords(clause.slice(0, m.index));
+      const after = organizationWords(clause.slice(m.index! + m[0].length));
+      mentions.push({ name, source: m[0], pastCue: pastEmploymentCue(before, after) });
+    }
+  }
+  return mentions;
+}
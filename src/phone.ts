@@ -0,0 +1,168 @@
+import phoneRegions from './data/phone-regions.json';
+import { PersonLocation, primaryLocation, resolveLocation } from './gazetteer';
+
+// ============ METADATA ============
+interface RegionMetadata {
+  callingCode: string;
+  /** Digits dialled before a national number inside the country (`0` in the UK, `1` in the US). */
+  trunkPrefix: string;
+  /** Digits dialled before a calling code from inside the country (`00`, `011`, ...). */
+  internationalPrefix: string;
+  /** Min and max length of the national significant number. */
+  nationalLength: number[];
+}
+
+const REGIONS: Record<string, RegionMetadata> = phoneRegions.regions;
+const TWO_DIGIT_CODES = new Set(phoneRegions.twoDigitCallingCodes);
+
+export function isKnownRegion(region: string): boolean {
+  return Object.prototype.hasOwnProperty.call(REGIONS, region.toUpperCase());
+}
+
+export interface ParsedPhone {
+  /** The text the number was read from. */
+  source: string;
+  /** E.164 form (`+442079460958`); absent when the country could not be determined. */
+  e164?: string;
+  countryCode?: string;
+  nationalNumber: string;
+  extension?: string;
+  region?: string;
+}
+
+// ============ REGION INFERENCE ============
+/** Guesses the ISO 3166 region from a free-form location (a person's primary one) via the gazetteer. */
+export function inferRegion(location?: PersonLocation): string | undefined {
+  const country = resolveLocation(primaryLocation(location))?.country;
+  return country && isKnownRegion(country) ? country : undefined;
+}
+
+// ============ PARSING ============
+const EXTENSION = /\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})\s*$/i;
+
+function fitsLength(national: string, meta?: RegionMetadata): boolean {
+  const [min, max] = meta ? meta.nationalLength : [7, 12];
+  return national.length >= min && national.length <= max;
+}
+
+function splitCallingCode(digits: string): string {
+  if (digits.startsWith('1') || digits.startsWith('7')) return digits[0];
+  return TWO_DIGIT_CODES.has(digits.slice(0, 2)) ? digits.slice(0, 2) : digits.slice(0, 3);
+}
+
+function regionForCallingCode(callingCode: string, preferred?: string): string | undefined {
+  if (preferred && REGIONS[preferred]?.callingCode === callingCode) return preferred;
+  return Object.keys(REGIONS).find(r => REGIONS[r].callingCode === callingCode);
+}
+
+function stripTrunkPrefix(national: string, meta: RegionMetadata): string {
+  const trunk = meta.trunkPrefix;
+  if (!trunk || !national.startsWith(trunk)) return national;
+  const stripped = national.slice(trunk.length);
+  // Numbers never start with a `0` trunk prefix, but e.g. Russian 8xx numbers can start with their `8` trunk
+  if (fitsLength(stripped, meta) && (trunk === '0' || !fitsLength(national, meta))) return stripped;
+  return national;
+}
+
+/**
+ * Parses a phone number in international (`+44 20 7946 0958`, `0044 ...`) or national (`020 7946 0958`) format.
+ * National numbers are read in `region` (ISO 3166 alpha-2); without one, only the national digits are kept.
+ * Returns null when the digits can't be a phone number in that region.
+ */
+export function parsePhone(raw: string, region?: string): ParsedPhone | null {
+  let text = raw.trim();
+  let extension: string | undefined;
+  const ext = text.match(EXTENSION);
+  if (ext) {
+    extension = ext[1];
+    text = text.slice(0, ext.index);
+  }
+  text = text.replace(/\(0\)/g, ''); // "+44 (0)20 ..." marks the trunk prefix dropped when dialling from abroad
+  const home = region ? REGIONS[region.toUpperCase()] : undefined;
+  let digits = text.replace(/\D/g, '');
+  let international = text.startsWith('+');
+  if (!international) {
+    const idd = home?.internationalPrefix ?? '00';
+    if (digits.startsWith(idd)) {
+      digits = digits.slice(idd.length);
+      international = true;
+    }
+  }
+
+  if (international) {
+    const countryCode = splitCallingCode(digits);
+    const numberRegion = regionForCallingCode(countryCode, region?.toUpperCase());
+    const meta = numberRegion ? REGIONS[numberRegion] : undefined;
+    let national = digits.slice(countryCode.length);
+    if (meta) national = stripTrunkPrefix(national, meta);
+    if (!fitsLength(national, meta)) return null;
+    return { source: raw, e164: `+${countryCode}${national}`, countryCode, nationalNumber: national, extension, region: numberRegion };
+  }
+
+  if (home) {
+    const national = stripTrunkPrefix(digits, home);
+    if (!fitsLength(national, home)) return null;
+    return {
+      source: raw, e164: `+${home.callingCode}${national}`, countryCode: home.callingCode,
+      nationalNumber: national, extension, region: region!.toUpperCase(),
+    };
+  }
+
+  // Unknown region: an 11-digit number with a leading 1 is still recognisably North American
+  if (digits.length === 11 && digits.startsWith('1')) {
+    const national = digits.slice(1);
+    return { source: raw, e164: `+1${national}`, countryCode: '1', nationalNumber: national, extension };
+  }
+  const national = digits.replace(/^0/, '');
+  if (!fitsLength(national)) return null;
+  return { source: raw, nationalNumber: national, extension };
+}
+
+/** E.164 form when the country is known, otherwise the national digits; empty if unparseable. */
+export function normalizePhone(phone: string, region?: string): string {
+  const parsed = parsePhone(phone, region);
+  return parsed ? parsed.e164 ?? parsed.nationalNumber : '';
+}
+
+/** Two numbers match when their national digits agree and their countries don't conflict. Extensions are ignored. */
+export function samePhone(a: ParsedPhone, b: ParsedPhone): boolean {
+  if (a.nationalNumber !== b.nationalNumber) return false;
+  return !a.countryCode || !b.countryCode || a.countryCode === b.countryCode;
+}
+
+// ============ EXTRACTION ============
+const PHONE_CANDIDATE = /\+?\(?\d[\d \t().\-/]{5,}\d(?:\s*(?:ext\.?|extension|x|#)\s*\d{1,6})?/gi;
+
+/** Raw phone-like spans in free text (digits with common separators, optional leading `+` and extension). */
+export function findPhoneCandidates(text: string): string[] {
+  return (text.match(PHONE_CANDIDATE) ?? []).map(c => c.trim());
+}
+
+/**
+ * Every phone number found in `text`. A span that doesn't parse as a whole (e.g. a year run into a number)
+ * is retried as shorter runs of its space-separated chunks.
+ */
+export function extractPhoneNumbers(text: string, region?: string): ParsedPhone[] {
+  const found: ParsedPhone[] = [];
+  for (const candidate of findPhoneCandidates(text)) {
+    const whole = parsePhone(candidate, region);
+    if (whole) {
+      found.push(whole);
+      continue;
+    }
+    const chunks = candidate.split(/\s+/);
+    for (let start = 0; start < chunks.length; start++) {
+      for (let end = chunks.length; end > start; end--) {
+        const part = chunks.slice(start, end).join(' ');
+        if (part.replace(/\D/g, '').length < 7) break;
+        const parsed = parsePhone(part, region);
+        if (parsed) {
+          found.push(parsed);
+          start = end - 1;
+          break;
+        }
+      }
+    }
+  }
+  return found;
+}
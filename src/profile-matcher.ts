@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import {
+  BatchMatchResponse, MatchResult, Person, PersonSchema, Profile, ProfileSchema, ReferenceDateSchema, RegionSchema,
+  ScoringModelSchema, TierBoundariesSchema, Weights, WeightsSchema, validateScoring,
+} from './types';
+import { MatchFilter, ScoringOptions, calculateMatchScore, rankProfiles } from './matching';
+import { TierCounts, resolveTiers } from './tiers';
+import { IdentityGraph, ResolveOptions, resolveIdentity } from './identity';
+import { resolveWeights } from './scoring';
+import { runBatch, summarize } from './batch';
+
+// ============ PROGRAMMATIC API ============
+// In-process equivalent of the HTTP API. Inputs are validated with the same schemas and throw `ZodError`.
+const OptionsSchema = z.object({
+  weights: WeightsSchema.optional(),
+  scoringProfile: z.string().optional(),
+  explain: z.boolean().optional(),
+  defaultRegion: RegionSchema.optional(),
+  referenceDate: z.union([z.date(), ReferenceDateSchema]).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+  topK: z.number().int().min(1).optional(),
+  tiers: TierBoundariesSchema.optional(),
+  /** Used unless `weights` or `scoringProfile` is given, as with `createApp`. */
+  model: ScoringModelSchema.optional(),
+}).superRefine(validateScoring);
+
+export type ProfileMatcherOptions = z.input<typeof OptionsSchema>;
+
+const ProfilesSchema = z.array(ProfileSchema);
+
+export class ProfileMatcher {
+  /** Normalized weights every call uses; with a model, its weights (reported only, not used for scoring). */
+  readonly weights: Weights;
+  private readonly scoring: ScoringOptions;
+  private readonly filter: MatchFilter;
+
+  constructor(options: ProfileMatcherOptions = {}) {
+    const {
+      weights, scoringProfile, explain, defaultRegion, referenceDate, minScore, topK, tiers, model: trained,
+    } = OptionsSchema.parse(options);
+    const model = weights || scoringProfile ? undefined : trained;
+    this.weights = model?.weights ?? resolveWeights(weights, scoringProfile);
+    this.scoring = { explain, defaultRegion, referenceDate, tiers: resolveTiers(tiers), model };
+    this.filter = { minScore, topK };
+  }
+
+  /** Scores one profile against a person. */
+  score(person: Person, profile: Profile): MatchResult {
+    return calculateMatchScore(PersonSchema.parse(person), ProfileSchema.parse(profile), this.weights, this.scoring);
+  }
+
+  /**
+   * Scores every profile, highest first, keeping those that pass `minScore` and `topK`.
+   * Unlike `POST /match` there is no cap on the number of profiles.
+   */
+  match(person: Person, profiles: Profile[]): MatchResult[] {
+    return this.rank(person, profiles).matches;
+  }
+
+  /** Like `match`, plus how many profiles fell into each tier before filtering. */
+  rank(person: Person, profiles: Profile[]): { matches: MatchResult[]; tiers: TierCounts } {
+    const options = { ...this.scoring, ...this.filter };
+    return rankProfiles(PersonSchema.parse(person), ProfilesSchema.parse(profiles), this.weights, options);
+  }
+
+  /** Same semantics as `POST /match/resolve`; `minScore` from the constructor applies unless overridden here. */
+  resolve(
+    person: Person, profiles: Profile[], options: Pick<ResolveOptions, 'maxPerPlatform' | 'minScore' | 'linkThreshold'> = {},
+  ): IdentityGraph {
+    return resolveIdentity(PersonSchema.parse(person), ProfilesSchema.parse(profiles), this.weights, {
+      ...this.scoring, minScore: this.filter.minScore, ...options,
+    });
+  }
+
+  /** Same semantics as `POST /match/batch`: bad items get an item-level error instead of throwing. */
+  matchBatch(items: unknown[], profiles?: Profile[]): BatchMatchResponse {
+    const shared = profiles && ProfilesSchema.parse(profiles);
+    const { explain, defaultRegion, referenceDate, tiers, model } = this.scoring;
+    const request = { items, profiles: shared, explain, defaultRegion, referenceDate, ...this.filter };
+    const results = [...runBatch(request, this.weights, tiers, model)];
+    return { results, summary: summarize(results), weights: this.weights };
+  }
+}
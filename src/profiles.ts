@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { Person, Profile } from './types';
+import { getDisplayName } from './matching';
+import { nicknameGroups } from './nicknames';
+import { extractPhoneNumbers, inferRegion, parsePhone } from './phone';
+import { extractEmails, normalizeEmail } from './email';
+import { PersonName, nameText, parseName } from './names';
+
+// ============ BLOCKING KEYS ============
+// Search can't score every stored profile, so candidates are retrieved by cheap keys that any plausible match
+// shares with the person: a name token (or its nickname group), a username-like handle, an email address or a phone
+// number.
+function nameTokens(name?: PersonName): string[] {
+  if (!name) return [];
+  return [...new Set(parseName(name).flatMap(reading => nameText(reading).split(' ')))].filter(t => t.length >= 2);
+}
+
+/** Same folding as the email matcher: separators and digits carry no identity. */
+function handleKey(handle: string): string | undefined {
+  const key = handle.toLowerCase().replace(/[._-]/g, '').replace(/\d+/g, '');
+  return key.length >= 3 ? key : undefined;
+}
+
+function nameKeys(name?: PersonName): string[] {
+  return nameTokens(name).flatMap(t => [`n:${t}`, ...nicknameGroups(t).map(g => `n:${g}`)]);
+}
+
+function profileKeys(profile: Profile): string[] {
+  const keys = nameKeys(getDisplayName(profile));
+  const handle = handleKey(profile.username);
+  if (handle) keys.push(`u:${handle}`);
+  if (profile.bio) {
+    for (const phone of extractPhoneNumbers(profile.bio, inferRegion(profile.location))) keys.push(`p:${phone.nationalNumber}`);
+    for (const email of extractEmails(profile.bio)) keys.push(`e:${email.normalized}`);
+  }
+  return [...new Set(keys)];
+}
+
+function personKeys(person: Person, defaultRegion?: string): string[] {
+  const keys = nameKeys(person.name);
+  for (const { given, family } of person.name ? parseName(person.name) : []) {
+    if (given.length === 0 || family.length === 0) continue;
+    const first = given[0], last = family[family.length - 1];
+    for (const handle of [first + last, first[0] + last]) keys.push(`u:${handle}`);
+  }
+  for (const email of [person.email ?? []].flat()) {
+    const handle = handleKey(email.split('@')[0].replace(/\+.*$/, ''));
+    if (handle) keys.push(`u:${handle}`);
+    const normalized = normalizeEmail(email);
+    if (normalized) keys.push(`e:${normalized}`);
+  }
+  const region = inferRegion(person.location) ?? defaultRegion;
+  for (const phone of [person.phone ?? []].flat()) {
+    const parsed = parsePhone(phone, region);
+    if (parsed) keys.push(`p:${parsed.nationalNumber}`);
+  }
+  return [...new Set(keys)];
+}
+
+/** Store key for a profile: platform and username, case-insensitively. */
+export const profileId = (platform: string, username: string) => `${platform.toLowerCase()}/${username.toLowerCase()}`;
+
+// ============ STORE ============
+export interface CandidateOptions {
+  /** Max profiles returned; those sharing the most blocking keys with the person come first. */
+  limit?: number;
+  /** Region for the person's national phone numbers when their location gives none. */
+  defaultRegion?: string;
+}
+
+const DEFAULT_CANDIDATE_LIMIT = 500;
+
+/**
+ * Candidate profiles, persisted as JSON at `file` (in memory only when no file is given) and identified by
+ * platform and username, case-insensitively. The blocking index is derived from the profiles when they're loaded.
+ */
+export class ProfileStore {
+  private readonly profiles = new Map<string, Profile>();
+  private readonly index = new Map<string, Set<string>>();
+  private readonly keysById = new Map<string, string[]>();
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(private readonly file?: string) {
+    if (file && fs.existsSync(file)) {
+      const data = JSON.parse(fs.readFileSync(file, 'utf8')) as { profiles: Profile[] };
+      for (const profile of data.profiles) this.put(profile);
+    }
+  }
+
+  get size(): number {
+    return this.profiles.size;
+  }
+
+  /** Adds profiles, replacing any stored under the same platform and username. */
+  upsert(profiles: Profile[]): { created: number; updated: number } {
+    let created = 0, updated = 0;
+    for (const profile of profiles) {
+      if (this.put(profile)) updated++; else created++;
+    }
+    this.scheduleFlush();
+    return { created, updated };
+  }
+
+  get(platform: string, username: string): Profile | undefined {
+    return this.profiles.get(profileId(platform, username));
+  }
+
+  delete(platform: string, username: string): boolean {
+    const id = profileId(platform, username);
+    if (!this.profiles.has(id)) return false;
+    this.unindex(id);
+    this.profiles.delete(id);
+    this.scheduleFlush();
+    return true;
+  }
+
+  /** Stored profiles sharing at least one blocking key with `person`, most shared keys first. */
+  candidates(person: Person, options: CandidateOptions = {}): Profile[] {
+    const hits = new Map<string, number>();
+    for (const key of personKeys(person, options.defaultRegion)) {
+      for (const id of this.index.get(key) ?? []) hits.set(id, (hits.get(id) ?? 0) + 1);
+    }
+    return [...hits.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.limit ?? DEFAULT_CANDIDATE_LIMIT)
+      .map(([id]) => this.profiles.get(id)!);
+  }
+
+  /** Writes pending changes to disk. Called on a short timer after each change and on shutdown. */
+  flush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (!this.file) return;
+    // Write-then-rename so a crash mid-write can't leave a truncated store behind
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ profiles: [...this.profiles.values()] }));
+    fs.renameSync(tmp, this.file);
+  }
+
+  /** Stores and indexes `profile`; returns whether it replaced an existing one. */
+  private put(profile: Profile): boolean {
+    const id = profileId(profile.platform, profile.username);
+    const existed = this.profiles.has(id);
+    if (existed) this.unindex(id);
+    const keys = profileKeys(profile);
+    for (const key of keys) {
+      let ids = this.index.get(key);
+      if (!ids) this.index.set(key, ids = new Set());
+      ids.add(id);
+    }
+    this.keysById.set(id, keys);
+    this.profiles.set(id, profile);
+    return existed;
+  }
+
+  private unindex(id: string): void {
+    for (const key of this.keysById.get(id) ?? []) {
+      const ids = this.index.get(key)!;
+      ids.delete(id);
+      if (ids.size === 0) this.index.delete(key);
+    }
+    this.keysById.delete(id);
+  }
+
+  private scheduleFlush(): void {
+    if (!this.file || this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), 1000);
+    this.flushTimer.unref();
+  }
+}
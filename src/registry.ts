@@ -0,0 +1,86 @@
+import path from 'path';
+import type { Person, Profile, Weights } from './types';
+
+// ============ MATCHER INTERFACE ============
+/** Per-request state handed to every matcher. */
+export interface MatchContext {
+  /** Set when the caller asked for explanations; push human-readable reasons for the score onto it. */
+  evidence?: string[];
+  /** ISO 3166 region for national-format phone numbers when the person's location doesn't imply one. */
+  defaultRegion?: string;
+  /** Date ages in bios are worked out on; defaults to now. */
+  referenceDate?: Date;
+}
+
+export interface Matcher {
+  /** Key used in weight tables and scoring profiles, e.g. `name` or `emailUsername`. */
+  name: string;
+  /** Key the score is reported under in `MatchResult.factors`, e.g. `name_match`. */
+  factor: string;
+  /** Default weight; only relative size matters since weights are normalized. */
+  weight: number;
+  /** Whether both sides carry the data this matcher needs. Inapplicable matchers don't count towards the score. */
+  applies(person: Person, profile: Profile): boolean;
+  /** Returns a score in [0, 1]. */
+  score(person: Person, profile: Profile, context: MatchContext): number;
+  /** For evidence that all but settles a match: a score of 1 lifts the match score to at least this. */
+  conclusive?: number;
+}
+
+// ============ REGISTRY ============
+const matchers = new Map<string, Matcher>();
+
+function isMatcher(value: unknown): value is Matcher {
+  const m = value as Matcher;
+  return !!m && typeof m.name === 'string' && typeof m.factor === 'string' && typeof m.weight === 'number'
+    && typeof m.applies === 'function' && typeof m.score === 'function';
+}
+
+export function registerMatcher(matcher: Matcher): void {
+  if (!isMatcher(matcher)) throw new Error('Invalid matcher: expected name, factor, weight, applies() and score()');
+  if (!matcher.name.trim()) throw new Error('Matcher name must not be empty');
+  if (!Number.isFinite(matcher.weight) || matcher.weight < 0) throw new Error(`Matcher "${matcher.name}" has an invalid weight`);
+  if (matcher.conclusive !== undefined && !(matcher.conclusive >= 0 && matcher.conclusive <= 1)) {
+    throw new Error(`Matcher "${matcher.name}" has an invalid conclusive score`);
+  }
+  if (matchers.has(matcher.name)) throw new Error(`Matcher "${matcher.name}" is already registered`);
+  for (const m of matchers.values()) {
+    if (m.factor === matcher.factor) throw new Error(`Factor "${matcher.factor}" is already reported by matcher "${m.name}"`);
+  }
+  matchers.set(matcher.name, matcher);
+}
+
+export function unregisterMatcher(name: string): boolean {
+  return matchers.delete(name);
+}
+
+/** Registered matchers in registration order. */
+export function getMatchers(): Matcher[] {
+  return [...matchers.values()];
+}
+
+export function isRegisteredMatcher(name: string): boolean {
+  return matchers.has(name);
+}
+
+export function defaultWeights(): Weights {
+  return Object.fromEntries(getMatchers().map(m => [m.name, m.weight]));
+}
+
+// ============ PLUGINS ============
+/**
+ * Loads matcher modules by path or package name (resolved from the working directory) and registers them.
+ * A module may export a matcher or an array of matchers as `default`, `matchers`, `matcher` or `module.exports`.
+ */
+export function loadMatcherPlugins(modules: string[]): void {
+  for (const id of modules) {
+    const resolved = require.resolve(id.startsWith('.') ? path.resolve(id) : id, { paths: [process.cwd()] });
+    const mod = require(resolved);
+    const exported = mod.default ?? mod.matchers ?? mod.matcher ?? mod;
+    const list: unknown[] = Array.isArray(exported) ? exported : [exported];
+    for (const m of list) {
+      if (!isMatcher(m)) throw new Error(`Matcher plugin "${id}" does not export a valid matcher`);
+      registerMatcher(m);
+    }
+  }
+}
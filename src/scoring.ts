@@ -0,0 +1,33 @@
+import type { Weights } from './types';
+import { defaultWeights, isRegisteredMatcher } from './registry';
+import scoringProfiles from './data/scoring-profiles.json';
+import './matching'; // Registers the built-in matchers that supply the default weights
+
+// ============ SCORING PROFILES ============
+// Named presets live in data/scoring-profiles.json; any factor a preset omits keeps its default weight.
+export const SCORING_PROFILES: Record<string, Weights> = scoringProfiles;
+
+export function isScoringProfile(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SCORING_PROFILES, name);
+}
+
+// ============ WEIGHT RESOLUTION ============
+export function normalizeWeights(weights: Weights): Weights {
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  if (total <= 0) throw new Error('Weights must contain at least one positive value');
+  const normalized: Weights = {};
+  for (const [key, w] of Object.entries(weights)) {
+    normalized[key] = Math.round((w / total) * 10000) / 10000;
+  }
+  return normalized;
+}
+
+/**
+ * Layers the scoring profile (if any) and per-request overrides over the registered matchers' defaults,
+ * then normalizes to sum to 1. Keys that don't name a registered matcher are dropped.
+ */
+export function resolveWeights(overrides?: Weights, scoringProfile?: string): Weights {
+  const preset = scoringProfile ? SCORING_PROFILES[scoringProfile] : undefined;
+  const merged: Weights = { ...defaultWeights(), ...preset, ...overrides };
+  return normalizeWeights(Object.fromEntries(Object.entries(merged).filter(([key]) => isRegisteredMatcher(key))));
+}
@@ -0,0 +1,68 @@
+import { createApp } from './app';
+import { loadMatcherPlugins } from './registry';
+import { loadNicknamesFile } from './nicknames';
+import { loadOrganizationsFile } from './organizations';
+import { loadJobTitlesFile } from './job-titles';
+import { loadScoringModel } from './calibration';
+import { ApiKeyStore } from './apikeys';
+import { ProfileStore } from './profiles';
+
+// Comma-separated module paths or package names exporting extra matchers
+if (process.env.MATCHER_PLUGINS) {
+  loadMatcherPlugins(process.env.MATCHER_PLUGINS.split(',').map(m => m.trim()).filter(Boolean));
+}
+
+// Extra nickname groups in the same format as src/data/nicknames.json
+if (process.env.NICKNAMES_FILE) loadNicknamesFile(process.env.NICKNAMES_FILE);
+
+// Extra organisations in the same format as src/data/organizations.json
+if (process.env.ORGANIZATIONS_FILE) loadOrganizationsFile(process.env.ORGANIZATIONS_FILE);
+
+// Extra abbreviations, levels and role families in the same format as src/data/job-titles.json
+if (process.env.JOB_TITLES_FILE) loadJobTitlesFile(process.env.JOB_TITLES_FILE);
+
+// Model written by `npm run train`; scores requests that pick no weights of their own
+const model = process.env.SCORING_MODEL_FILE ? loadScoringModel(process.env.SCORING_MODEL_FILE) : undefined;
+
+const PORT = process.env.PORT || 3000;
+
+// Without a key file the matching routes are open to anyone who can reach the port
+const apiKeys = process.env.API_KEYS_FILE
+  ? new ApiKeyStore(process.env.API_KEYS_FILE, {
+    defaultRateLimit: process.env.API_KEY_RATE_LIMIT
+      ? { requests: Number(process.env.API_KEY_RATE_LIMIT), windowSeconds: 60 }
+      : undefined,
+    defaultDailyQuota: process.env.API_KEY_DAILY_QUOTA ? Number(process.env.API_KEY_DAILY_QUOTA) : undefined,
+  })
+  : undefined;
+if (!apiKeys) console.warn('API_KEYS_FILE is not set; /match and /profiles are open to unauthenticated clients');
+
+// Candidate profiles for /match/search; kept in memory only when no file is given
+const profiles = new ProfileStore(process.env.PROFILES_FILE);
+
+const app = createApp({
+  scoringProfile: process.env.SCORING_PROFILE,
+  model,
+  limits: { bodySize: process.env.BODY_LIMIT, batchBodySize: process.env.BATCH_BODY_LIMIT },
+  adminToken: process.env.ADMIN_TOKEN,
+  apiKeys,
+  profiles,
+});
+
+const server = app.listen(PORT, () => {
+  console.log(`Server running at http://localhost:${PORT}`);
+});
+
+// Keep process alive
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    apiKeys?.flush();
+    profiles.flush();
+    server.close(() => process.exit(0));
+  });
+}
+
+// Prevent exit on Windows
+if (process.platform === 'win32') {
+  process.stdin.resume();
+}
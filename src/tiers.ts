@@ -0,0 +1,32 @@
+// ============ CONFIDENCE TIERS ============
+// Named score bands so consumers share one notion of "a match" instead of each picking a cutoff.
+export const TIERS = ['definite', 'probable', 'possible', 'no_match'] as const;
+export type Tier = typeof TIERS[number];
+
+/** Lowest score in each tier; scores below `possible` are `no_match`. */
+export type TierBoundaries = Record<Exclude<Tier, 'no_match'>, number>;
+export type TierCounts = Record<Tier, number>;
+
+export const DEFAULT_TIER_BOUNDARIES: TierBoundaries = { definite: 0.85, probable: 0.7, possible: 0.5 };
+
+/** Layers overrides over the default boundaries. Callers validate the order (see `TierBoundariesSchema`). */
+export function resolveTiers(...overrides: (Partial<TierBoundaries> | undefined)[]): TierBoundaries {
+  return Object.assign({ ...DEFAULT_TIER_BOUNDARIES }, ...overrides);
+}
+
+export function areOrdered({ definite, probable, possible }: TierBoundaries): boolean {
+  return definite >= probable && probable >= possible;
+}
+
+export function tierFor(score: number, boundaries: TierBoundaries = DEFAULT_TIER_BOUNDARIES): Tier {
+  if (score >= boundaries.definite) return 'definite';
+  if (score >= boundaries.probable) return 'probable';
+  if (score >= boundaries.possible) return 'possible';
+  return 'no_match';
+}
+
+export function countTiers(results: { tier: Tier }[]): TierCounts {
+  const counts = Object.fromEntries(TIERS.map(t => [t, 0])) as TierCounts;
+  for (const r of results) counts[r.tier]++;
+  return counts;
+}
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { parseLabelledPairs, trainScoringModel } from './calibration';
+import { CONTEXT_OPTIONS, contextOptions, numberOption, runCommand } from './cli';
+import './matching'; // Registers the built-in matchers the model is fitted over
+
+// ============ TRAINING COMMAND ============
+// Fits a scoring model to analyst-labelled pairs and writes it where SCORING_MODEL_FILE can point.
+const USAGE = 'Usage: npm run train -- --input <pairs.jsonl> --output <model.json> [--holdout 0.2] [--seed 1] '
+  + '[--threshold 0.5] [--l2 1] [--reference-date YYYY-MM-DD] [--default-region CC]';
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string' },
+      output: { type: 'string' },
+      holdout: { type: 'string' },
+      seed: { type: 'string' },
+      threshold: { type: 'string' },
+      l2: { type: 'string' },
+      ...CONTEXT_OPTIONS,
+    },
+  });
+  if (!values.input || !values.output) throw new Error(USAGE);
+
+  const pairs = parseLabelledPairs(fs.readFileSync(values.input, 'utf8'));
+  const model = trainScoringModel(pairs, {
+    holdout: numberOption(values.holdout, 'holdout'),
+    seed: numberOption(values.seed, 'seed'),
+    threshold: numberOption(values.threshold, 'threshold'),
+    l2: numberOption(values.l2, 'l2'),
+    ...contextOptions(values),
+  });
+  fs.writeFileSync(values.output, JSON.stringify(model, null, 2) + '\n');
+
+  const m = model.metrics!;
+  const fixed = (n: number | null) => (n === null ? 'n/a' : n.toFixed(3));
+  console.log(`Trained on ${m.train} pairs, evaluated on ${m.test} held out`);
+  console.log(`  precision ${fixed(m.precision)}  recall ${fixed(m.recall)}  f1 ${fixed(m.f1)} at threshold ${m.threshold}`);
+  console.log(`  AUC ${fixed(m.auc)} (default weights ${fixed(m.baselineAuc)})  log loss ${fixed(m.logLoss)}`);
+  console.log(`Model written to ${values.output}`);
+}
+
+runCommand(main);
@@ -1,13 +1,40 @@
 import { z } from 'zod';
+import { SCORING_PROFILES, isScoringProfile, resolveWeights } from './scoring';
+import { TIERS, Tier, areOrdered, resolveTiers } from './tiers';
+import { getMatchers, isRegisteredMatcher } from './registry';
+import { isKnownRegion } from './phone';
+import { parseDate, parseIsoDate } from './dates';
+import { BIO_CLAIM_KINDS } from './bio';
+import { LOCATION_TYPES } from './gazetteer';
+
+export const StructuredNameSchema = z.object({
+  given: z.string().optional(),
+  middle: z.union([z.string(), z.array(z.string())]).optional(),
+  family: z.string().optional().describe('Family name(s); several words or a hyphenated name are one family name.'),
+  aliases: z.array(z.string()).optional().describe('Other full names the person goes by, such as a maiden name.'),
+});
+
+const partialDate = z.string().refine(s => parseDate(s) !== null, { message: 'Expected a date such as 2019, 2019-06 or 2019-06-01' });
+
+export const DatedLocationSchema = z.object({
+  place: z.string(),
+  type: z.enum(LOCATION_TYPES).optional(),
+  from: partialDate.optional(),
+  to: partialDate.optional().describe('When they left; a location left before `referenceDate` counts as a previous one.'),
+});
 
 export const PersonSchema = z.object({
-  name: z.string().optional(),
+  name: z.union([z.string(), StructuredNameSchema]).optional(),
   email: z.union([z.string(), z.array(z.string())]).optional(),
   phone: z.union([z.string(), z.array(z.string())]).optional(),
-  location: z.string().optional(),
+  location: z.union([z.string(), z.array(z.union([z.string(), DatedLocationSchema]))]).optional()
+    .describe('One location, or several (home, work, previous) each compared with the profile\'s.'),
   dateOfBirth: z.string().optional(),
   employer: z.string().optional(),
   jobTitle: z.string().optional(),
+  websites: z.union([z.string(), z.array(z.string())]).optional().describe('Personal sites and other pages known to be the person\'s.'),
+  socialHandles: z.record(z.union([z.string(), z.array(z.string())])).optional()
+    .describe('Known accounts by platform, such as `{ "github": "jdoe", "twitter": ["@jdoe", "jdoe_alt"] }`.'),
 });
 
 export const ProfileSchema = z.object({
@@ -21,25 +48,359 @@ export const ProfileSchema = z.object({
   profile_url: z.string().optional(), // snake_case alias
 });
 
+const weight = z.number().finite().min(0);
+
+// Keys are matcher names, so weights for plugin matchers are accepted once those are registered.
+export const WeightsSchema = z.record(weight).superRefine((weights, ctx) => {
+  for (const key of Object.keys(weights)) {
+    if (!isRegisteredMatcher(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: `Unknown factor. Expected one of: ${getMatchers().map(m => m.name).join(', ')}`,
+      });
+    }
+  }
+});
+
+export const RegionSchema = z.string()
+  .refine(isKnownRegion, { message: 'Unknown region. Expected an ISO 3166 alpha-2 code such as US, GB or DE' })
+  .transform(r => r.toUpperCase());
+
+export const ReferenceDateSchema = z.string()
+  .refine(s => parseIsoDate(s) !== null, { message: 'Expected an ISO 8601 date such as 2024-06-01' })
+  .transform(s => parseIsoDate(s)!)
+  .describe('Date ages stated in bios are worked out on (ISO 8601; default: today).');
+
+const boundary = z.number().min(0).max(1);
+
+export const TIER_ORDER_MESSAGE = 'Tier boundaries must satisfy definite >= probable >= possible';
+
+// Partial boundaries are merged over the defaults, so the order is checked on the merged result
+export const TierBoundariesSchema = z.object({
+  definite: boundary.optional(),
+  probable: boundary.optional(),
+  possible: boundary.optional(),
+}).strict().superRefine((tiers, ctx) => {
+  if (!areOrdered(resolveTiers(tiers))) ctx.addIssue({ code: z.ZodIssueCode.custom, message: TIER_ORDER_MESSAGE });
+}).describe('Lowest score of each confidence tier, layered over the server defaults; lower scores are `no_match`.');
+
+const minScore = z.number().min(0).max(1).describe('Drop matches scoring below this.');
+const topK = z.number().int().min(1).describe('Return at most this many matches, after `minScore`.');
+
 export const MatchRequestSchema = z.object({
   person: PersonSchema,
   profiles: z.array(ProfileSchema).min(1).max(20),
+  weights: WeightsSchema.optional().describe('Per-matcher weight overrides, layered over the scoring profile and defaults.'),
+  scoringProfile: z.string().optional().describe('Name of a server-side weight preset.'),
+  explain: z.boolean().optional().describe('Include per-factor evidence and contributions in each match.'),
+  defaultRegion: RegionSchema.optional().describe('ISO 3166 alpha-2 region for national phone numbers when no location gives one.'),
+  referenceDate: ReferenceDateSchema.optional(),
+  minScore: minScore.optional(),
+  topK: topK.optional(),
+  tiers: TierBoundariesSchema.optional(),
+}).superRefine(validateScoring);
+
+export const MAX_BATCH_ITEMS = 10000;
+export const MAX_BATCH_PROFILES = 5000;
+
+export const BatchItemSchema = z.object({
+  id: z.string().optional(),
+  person: PersonSchema,
+  profiles: z.array(ProfileSchema).min(1).max(MAX_BATCH_PROFILES).optional(),
 });
 
-export type Person = z.infer<typeof PersonSchema>;
-export type Profile = z.infer<typeof ProfileSchema>;
-export type MatchRequest = z.infer<typeof MatchRequestSchema>;
+// Items are validated one at a time so a single bad record fails on its own instead of sinking the batch.
+export const BatchMatchRequestSchema = z.object({
+  items: z.array(z.unknown()).min(1).max(MAX_BATCH_ITEMS).describe('Batch items; each is validated on its own against `BatchItem`.'),
+  profiles: z.array(ProfileSchema).min(1).max(MAX_BATCH_PROFILES).optional().describe('Profiles shared by items that give none of their own.'),
+  weights: WeightsSchema.optional(),
+  scoringProfile: z.string().optional(),
+  explain: z.boolean().optional(),
+  defaultRegion: RegionSchema.optional(),
+  referenceDate: ReferenceDateSchema.optional(),
+  minScore: minScore.optional(),
+  topK: topK.optional().describe('Return at most this many matches per item, after `minScore`.'),
+  tiers: TierBoundariesSchema.optional(),
+}).superRefine(validateScoring);
 
-export interface MatchFactors {
-  [key: string]: number | string;
+/** Rejects unknown scoring profiles and weight tables that would normalize to nothing. */
+export function validateScoring(
+  data: { weights?: z.infer<typeof WeightsSchema>; scoringProfile?: string },
+  ctx: z.RefinementCtx,
+): void {
+  if (data.scoringProfile !== undefined && !isScoringProfile(data.scoringProfile)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['scoringProfile'],
+      message: `Unknown scoring profile. Expected one of: ${Object.keys(SCORING_PROFILES).join(', ')}`,
+    });
+    return;
+  }
+  if (!data.weights) return;
+  try {
+    resolveWeights(data.weights, data.scoringProfile);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['weights'], message: 'At least one weight must be greater than 0' });
+  }
 }
 
-export interface MatchResult {
-  profile: Profile;
-  score: number;
-  factors: MatchFactors;
-}
+export const MAX_RESOLVE_PROFILES = 200;
 
-export interface MatchResponse {
-  matches: MatchResult[];
-}
+export const ResolveRequestSchema = z.object({
+  person: PersonSchema,
+  profiles: z.array(ProfileSchema).min(1).max(MAX_RESOLVE_PROFILES),
+  weights: WeightsSchema.optional(),
+  scoringProfile: z.string().optional(),
+  explain: z.boolean().optional(),
+  defaultRegion: RegionSchema.optional(),
+  referenceDate: ReferenceDateSchema.optional(),
+  tiers: TierBoundariesSchema.optional(),
+  minScore: minScore.optional()
+    .describe('Lowest confidence a profile needs to join the identity (default: the `possible` tier boundary).'),
+  maxPerPlatform: z.number().int().min(1).optional().describe('Profiles kept per platform (default 1).'),
+  linkThreshold: z.number().min(0).max(1).optional()
+    .describe('Lowest profile-to-profile link confidence that puts two profiles in the same cluster (default 0.5).'),
+}).superRefine(validateScoring);
+
+export const ProfileUpsertSchema = z.object({
+  profiles: z.array(ProfileSchema).min(1).max(MAX_BATCH_PROFILES),
+});
+
+export const SearchRequestSchema = z.object({
+  person: PersonSchema,
+  weights: WeightsSchema.optional(),
+  scoringProfile: z.string().optional(),
+  explain: z.boolean().optional(),
+  defaultRegion: RegionSchema.optional(),
+  referenceDate: ReferenceDateSchema.optional(),
+  minScore: minScore.optional(),
+  topK: topK.max(100).optional().describe('Return at most this many matches, after `minScore` (default 10).'),
+  tiers: TierBoundariesSchema.optional(),
+}).superRefine(validateScoring);
+
+export const NicknameEntrySchema = z.object({
+  name: z.string().trim().min(1),
+  nicknames: z.array(z.string().trim().min(1)).min(1).max(100),
+});
+
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100).describe('Team or service the key is issued to.'),
+  rateLimit: z.object({
+    requests: z.number().int().positive(),
+    windowSeconds: z.number().int().positive(),
+  }).optional(),
+  dailyQuota: z.number().int().positive().optional().describe('Requests allowed per UTC day.'),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const UsageQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+// ============ CALIBRATION ============
+/** One line of a labelled training or evaluation file. */
+export const LabelledPairSchema = z.object({
+  id: z.string().optional().describe('Names the pair in evaluation reports.'),
+  person: PersonSchema,
+  profile: ProfileSchema,
+  isMatch: z.boolean(),
+});
+
+const coefficient = z.number().finite();
+const rate = z.number().min(0).max(1);
+
+export const ModelMetricsSchema = z.object({
+  train: z.number().int().describe('Labelled pairs the model was fitted on.'),
+  test: z.number().int().describe('Held-out pairs the metrics below come from.'),
+  threshold: rate.describe('Probability at or above which a pair counts as a predicted match.'),
+  precision: rate,
+  recall: rate,
+  f1: rate,
+  auc: rate.nullable().describe('Area under the ROC curve; null when the held-out pairs are all one label.'),
+  logLoss: z.number().min(0),
+  baselineAuc: rate.nullable().describe('AUC of the default weighted average on the same pairs, for comparison.'),
+});
+
+export const ScoringModelSchema = z.object({
+  version: z.literal(1),
+  kind: z.literal('logistic'),
+  trainedAt: z.string().optional(),
+  intercept: coefficient,
+  factors: z.record(z.object({
+    applied: coefficient.describe('Log-odds added when the matcher applies, whatever its score.'),
+    score: coefficient.describe('Log-odds added per unit of the matcher score.'),
+  })).describe('Coefficients by matcher name; matchers missing here add nothing.'),
+  weights: z.record(weight).describe('Positive score coefficients normalized to sum to 1, for use as plain weights.'),
+  metrics: ModelMetricsSchema.optional(),
+});
+
+// ============ RESPONSES ============
+// Responses are described as schemas too, so the OpenAPI document in src/openapi.ts has a single source.
+export const MatchFactorsSchema = z.record(z.union([z.number(), z.string()]));
+
+export const FactorExplanationSchema = z.object({
+  matcher: z.string(),
+  score: z.number(),
+  weight: z.number().describe('Share of the final score this factor carried, among the factors that applied. '
+    + 'Under a scoring model, the log-odds added per unit of score.'),
+  contribution: z.number().describe('`score * weight`; contributions plus any `adjustment` sum to the match score. '
+    + 'Under a scoring model, the log-odds this factor added.'),
+  adjustment: z.number().optional().describe('On a conclusive factor that lifted the match score to its floor: '
+    + 'how much it added beyond the weighted (or model) score.'),
+  evidence: z.array(z.string()),
+});
+
+export const BioSpanSchema = z.object({
+  text: z.string(),
+  start: z.number().int(),
+  end: z.number().int(),
+});
+
+export const BioClaimSchema = BioSpanSchema.extend({
+  kind: z.enum(BIO_CLAIM_KINDS),
+  value: z.string().describe('Normalized form, such as "+15551234567" for a phone or "senior engineering" for a role.'),
+  past: z.string().optional().describe('For employers, the cue ("ex", "formerly", "alum") marking a past one.'),
+  place: z.string().optional().describe('For locations, the gazetteer id when the place is known.'),
+  previous: z.boolean().optional().describe('For locations, set on places moved away from ("NYC → SF").'),
+}).passthrough().describe('A fact read from the bio; `text` is `bio.slice(start, end)`.');
+
+export const ParsedBioSchema = z.object({
+  segments: z.array(BioSpanSchema),
+  claims: z.array(BioClaimSchema),
+}).describe('How the bio was split and read, for debugging the bio factors.');
+
+export const TierSchema = z.enum(TIERS);
+
+export const TierCountsSchema = z.object(Object.fromEntries(TIERS.map(t => [t, z.number().int()])) as Record<Tier, z.ZodNumber>)
+  .describe('How many scored profiles fell into each tier, including any dropped by `minScore` or `topK`.');
+
+export const MatchResultSchema = z.object({
+  profile: ProfileSchema,
+  score: z.number().min(0).max(1),
+  tier: TierSchema,
+  factors: MatchFactorsSchema,
+  explanation: z.record(FactorExplanationSchema).optional().describe('Present when the request sets `explain`.'),
+  bio: ParsedBioSchema.optional().describe('Present when the request sets `explain` and the profile has a bio.'),
+});
+
+export const ResolvedWeightsSchema = z.record(z.number()).describe('Effective weights after layering and normalization.');
+
+export const MatchResponseSchema = z.object({
+  matches: z.array(MatchResultSchema),
+  tiers: TierCountsSchema,
+  weights: ResolvedWeightsSchema,
+});
+
+export const ResolvedProfileSchema = MatchResultSchema.extend({
+  id: z.string().describe('`platform/username`, lowercased.'),
+  confidence: z.number().min(0).max(1).describe('`score`, raised by links to profiles already in the identity.'),
+  cluster: z.string(),
+});
+
+export const RejectedProfileSchema = z.object({
+  id: z.string(),
+  score: z.number(),
+  confidence: z.number(),
+  cluster: z.string(),
+  reason: z.enum(['platform_limit', 'below_min_score']),
+});
+
+export const IdentityLinkSchema = z.object({
+  source: z.string().describe('`person`, or the id of a profile.'),
+  target: z.string(),
+  kind: z.enum(['person', 'profile']).describe('`person` links carry the match score; `profile` links carry cross-profile evidence.'),
+  confidence: z.number().min(0).max(1),
+  evidence: z.array(z.string()),
+});
+
+export const IdentityClusterSchema = z.object({
+  id: z.string(),
+  profiles: z.array(z.string()),
+  platforms: z.array(z.string()),
+  score: z.number().describe('Best match score among the members.'),
+});
+
+export const ResolveResponseSchema = z.object({
+  profiles: z.array(ResolvedProfileSchema).describe('The resolved identity, most confident first.'),
+  links: z.array(IdentityLinkSchema),
+  clusters: z.array(IdentityClusterSchema).describe('Every candidate grouped by profile-to-profile links, best first.'),
+  rejected: z.array(RejectedProfileSchema),
+  weights: ResolvedWeightsSchema,
+});
+
+export const ProfileUpsertResponseSchema = z.object({
+  created: z.number().int(),
+  updated: z.number().int(),
+  total: z.number().int().describe('Profiles in the store after the upsert.'),
+});
+
+export const SearchResponseSchema = z.object({
+  matches: z.array(MatchResultSchema),
+  tiers: TierCountsSchema,
+  weights: ResolvedWeightsSchema,
+  candidates: z.number().int().describe('Stored profiles retrieved by the blocking index and scored.'),
+});
+
+export const ValidationIssueSchema = z.object({
+  path: z.string().describe('Dot-separated path to the offending field, e.g. `profiles.0.username`.'),
+  message: z.string(),
+});
+
+export const ValidationErrorSchema = z.object({
+  error: z.literal('Validation Error'),
+  details: z.array(ValidationIssueSchema),
+});
+
+export const BatchItemResultSchema = z.object({
+  index: z.number().int(),
+  id: z.string().optional(),
+  matches: z.array(MatchResultSchema).optional(),
+  tiers: TierCountsSchema.optional(),
+  error: ValidationErrorSchema.optional(),
+});
+
+export const BatchSummarySchema = z.object({
+  total: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+});
+
+export const BatchMatchResponseSchema = z.object({
+  results: z.array(BatchItemResultSchema),
+  summary: BatchSummarySchema,
+  weights: ResolvedWeightsSchema,
+});
+
+export type StructuredName = z.infer<typeof StructuredNameSchema>;
+export type Person = z.infer<typeof PersonSchema>;
+export type Profile = z.infer<typeof ProfileSchema>;
+export type MatchRequest = z.infer<typeof MatchRequestSchema>;
+export type BatchItem = z.infer<typeof BatchItemSchema>;
+export type BatchMatchRequest = z.infer<typeof BatchMatchRequestSchema>;
+export type ResolveRequest = z.infer<typeof ResolveRequestSchema>;
+export type ProfileUpsert = z.infer<typeof ProfileUpsertSchema>;
+export type SearchRequest = z.infer<typeof SearchRequestSchema>;
+export type NicknameEntry = z.infer<typeof NicknameEntrySchema>;
+export type ApiKeyCreate = z.infer<typeof ApiKeyCreateSchema>;
+export type Weights = Record<string, number>;
+export type LabelledPair = z.infer<typeof LabelledPairSchema>;
+export type ModelMetrics = z.infer<typeof ModelMetricsSchema>;
+export type ScoringModel = z.infer<typeof ScoringModelSchema>;
+export type MatchFactors = z.infer<typeof MatchFactorsSchema>;
+export type FactorExplanation = z.infer<typeof FactorExplanationSchema>;
+export type MatchResult = z.infer<typeof MatchResultSchema>;
+export type MatchResponse = z.infer<typeof MatchResponseSchema>;
+export type ResolvedProfile = z.infer<typeof ResolvedProfileSchema>;
+export type RejectedProfile = z.infer<typeof RejectedProfileSchema>;
+export type IdentityLink = z.infer<typeof IdentityLinkSchema>;
+export type IdentityCluster = z.infer<typeof IdentityClusterSchema>;
+export type ResolveResponse = z.infer<typeof ResolveResponseSchema>;
+export type ProfileUpsertResponse = z.infer<typeof ProfileUpsertResponseSchema>;
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+export type BatchItemResult = z.infer<typeof BatchItemResultSchema>;
+export type BatchSummary = z.infer<typeof BatchSummarySchema>;
+export type BatchMatchResponse = z.infer<typeof BatchMatchResponseSchema>;
@@ -0,0 +1,65 @@
+// ============ URL NORMALIZATION ============
+// URLs are compared as `host/path?query`: no scheme, no www./m. prefix, no trailing slash or fragment, and without
+// the tracking parameters share buttons add, so every spelling of a link to the same page compares equal.
+const TRACKING_PARAM = /^(?:utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|igsh|si|s|t|ref|ref_src|ref_url|trk|src)$/i;
+const HOST_PREFIX = /^(?:www\d?|m|mobile)\./;
+
+/** The comparable form of a URL ("https://www.X.com/JaneDoe/?s=20" → "x.com/janedoe"), or undefined if it isn't one. */
+export function normalizeUrl(url: string): string | undefined {
+  const text = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return undefined;
+  }
+  // "mailto:jane@acme.com" would otherwise read as a login for acme.com
+  if (!/^https?:$/.test(parsed.protocol) || !parsed.hostname.includes('.') || parsed.username) return undefined;
+  const params = [...parsed.searchParams].filter(([key]) => !TRACKING_PARAM.test(key)).sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params)}` : '';
+  return `${parsed.hostname.replace(HOST_PREFIX, '')}${parsed.pathname.replace(/\/+$/, '')}${query}`.toLowerCase();
+}
+
+// ============ PROFILE LINKS ============
+// Where each platform keeps profile pages, so a link can be read back as an account
+const PROFILE_LINKS: { platform: string; hosts: string[]; path: RegExp }[] = [
+  { platform: 'twitter', hosts: ['twitter.com', 'x.com'], path: /^\/@?(\w{1,15})$/ },
+  { platform: 'github', hosts: ['github.com'], path: /^\/([a-z\d-]+)$/ },
+  { platform: 'gitlab', hosts: ['gitlab.com'], path: /^\/([\w.-]+)$/ },
+  { platform: 'linkedin', hosts: ['linkedin.com'], path: /^\/in\/([^/?]+)$/ },
+  { platform: 'instagram', hosts: ['instagram.com'], path: /^\/([\w.]+)$/ },
+  { platform: 'facebook', hosts: ['facebook.com', 'fb.com'], path: /^\/([\w.]+)$/ },
+  { platform: 'tiktok', hosts: ['tiktok.com'], path: /^\/@([\w.]+)$/ },
+  { platform: 'youtube', hosts: ['youtube.com'], path: /^\/@([\w.-]+)$/ },
+  { platform: 'medium', hosts: ['medium.com'], path: /^\/@([\w.-]+)$/ },
+  { platform: 'reddit', hosts: ['reddit.com'], path: /^\/u(?:ser)?\/([\w-]+)$/ },
+  { platform: 'threads', hosts: ['threads.net'], path: /^\/@([\w.]+)$/ },
+  { platform: 'bluesky', hosts: ['bsky.app'], path: /^\/profile\/([\w.-]+)$/ },
+];
+
+const PLATFORM_ALIASES: Record<string, string> = { x: 'twitter', fb: 'facebook', ig: 'instagram', bsky: 'bluesky' };
+
+/** Lowercase platform name with common aliases resolved ("X" → "twitter"). */
+export function platformKey(platform: string): string {
+  const key = platform.trim().toLowerCase();
+  return PLATFORM_ALIASES[key] ?? key;
+}
+
+/** Lowercase handle without a leading @. */
+export function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, '').toLowerCase();
+}
+
+/** The account a profile URL points at ("https://x.com/JaneDoe" → twitter/janedoe), if it's on a known platform. */
+export function profileLink(url: string): { platform: string; handle: string } | undefined {
+  const normalized = normalizeUrl(url);
+  if (!normalized) return undefined;
+  const slash = normalized.indexOf('/');
+  if (slash < 0) return undefined;
+  const host = normalized.slice(0, slash), path = normalized.slice(slash).replace(/\?.*$/, '');
+  for (const { platform, hosts, path: pattern } of PROFILE_LINKS) {
+    const m = hosts.includes(host) ? pattern.exec(path) : null;
+    if (m) return { platform, handle: normalizeHandle(m[1]) };
+  }
+  return undefined;
+}
@@ -1,34 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import express from 'express';
 import { Server } from 'http';
-import { MatchRequestSchema } from '../src/types';
-import { matchProfiles } from '../src/matching';
-
-// Import the app setup
-const app = express();
-app.use(express.json());
-
-app.post('/match', (req, res) => {
-  try {
-    const validation = MatchRequestSchema.safeParse(req.body);
-    if (!validation.success) {
-      return res.status(400).json({
-        error: 'Invalid request',
-        details: validation.error.errors,
-      });
-    }
-    const { person, profiles } = validation.data;
-    const matches = matchProfiles(person, profiles);
-    return res.json({ matches });
-  } catch (error) {
-    console.error('Error processing request:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-});
+import { createApp } from '../src/app';
 
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok' });
-});
+const app = createApp({ logger: { info: () => {}, error: () => {} } });
 
 // Test helpers
 let server: Server;
@@ -64,7 +38,7 @@ describe('API Integration Tests', () => {
     it('returns ok status', async () => {
       const { status, data } = await makeRequest('/health');
       expect(status).toBe(200);
-      expect(data).toEqual({ status: 'ok' });
+      expect(data.status).toBe('ok');
     });
   });
 
@@ -196,6 +170,32 @@ describe('API Integration Tests', () => {
       expect(data.matches[0].factors.email_username_match).toBe(1);
     });
 
+    it('several person locations, matched against the bio', async () => {
+      const { status, data } = await makeRequest('/match', {
+        method: 'POST',
+        body: JSON.stringify({
+          person: { name: 'Jane', location: [{ place: 'Boston', type: 'previous' }, { place: 'Berlin', type: 'work', from: '2021' }] },
+          profiles: [{ platform: 'x', username: 'jane', displayName: 'Jane', bio: '\u{1F4CD} Berlin' }],
+        }),
+      });
+
+      expect(status).toBe(200);
+      expect(data.matches[0].factors.location_match).toBeCloseTo(0.9);
+    });
+
+    it('rejects an unreadable location date', async () => {
+      const { status, data } = await makeRequest('/match', {
+        method: 'POST',
+        body: JSON.stringify({
+          person: { name: 'Jane', location: [{ place: 'Berlin', from: 'last spring' }] },
+          profiles: [{ platform: 'x', username: 'jane' }],
+        }),
+      });
+
+      expect(status).toBe(400);
+      expect(JSON.stringify(data)).toContain('Expected a date such as 2019');
+    });
+
     it('multiple phones array', async () => {
       const { status, data } = await makeRequest('/match', {
         method: 'POST',
@@ -251,7 +251,7 @@ describe('API Integration Tests', () => {
       });
 
       expect(status).toBe(400);
-      expect(data.error).toBe('Invalid request');
+      expect(data.error).toBe('Validation Error');
     });
 
     it('missing profiles array', async () => {
@@ -263,7 +263,7 @@ describe('API Integration Tests', () => {
       });
 
       expect(status).toBe(400);
-      expect(data.error).toBe('Invalid request');
+      expect(data.error).toBe('Validation Error');
     });
 
     it('empty profiles array', async () => {
@@ -276,7 +276,7 @@ describe('API Integration Tests', () => {
       });
 
       expect(status).toBe(400);
-      expect(data.error).toBe('Invalid request');
+      expect(data.error).toBe('Validation Error');
     });
 
     it('too many profiles (21)', async () => {
@@ -295,7 +295,7 @@ describe('API Integration Tests', () => {
       });
 
       expect(status).toBe(400);
-      expect(data.error).toBe('Invalid request');
+      expect(data.error).toBe('Validation Error');
     });
 
     it('empty person object', async () => {
@@ -321,7 +321,7 @@ describe('API Integration Tests', () => {
       });
 
       expect(status).toBe(400);
-      expect(data.error).toBe('Invalid request');
+      expect(data.error).toBe('Validation Error');
     });
 
     it('profile missing required username', async () => {
@@ -334,7 +334,8 @@ describe('API Integration Tests', () => {
       });
 
       expect(status).toBe(400);
-      expect(data.error).toBe('Invalid request');
+      expect(data.error).toBe('Validation Error');
+      expect(data.details).toContainEqual({ path: 'profiles.0.username', message: 'Required' });
     });
 
     it('empty body', async () => {
@@ -353,6 +354,7 @@ describe('API Integration Tests', () => {
         body: '{ invalid json }',
       });
       expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid JSON' });
     });
   });
 
@@ -479,4 +481,73 @@ describe('API Integration Tests', () => {
       expect(data.matches[0].profile.profile_url).toBe('https://linkedin.com/in/test');
     });
   });
+
+  // ==================== BATCH ====================
+
+  describe('POST /match/batch', () => {
+    it('answers other requests while a JSON batch is scored', async () => {
+      const profiles = Array.from({ length: 50 }, (_, i) => ({ platform: 'github', username: `user${i}`, displayName: `User ${i}` }));
+      const items = Array.from({ length: 200 }, (_, i) => ({ id: String(i), person: { name: `Person ${i}` } }));
+      const finished: string[] = [];
+      const batch = fetch(`${baseUrl}/match/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items, profiles }),
+      }).then(response => { finished.push('batch'); return response; });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const health = await makeRequest('/health');
+      finished.push('health');
+
+      expect(health.status).toBe(200);
+      const response = await batch;
+      expect(response.status).toBe(200);
+      expect((await response.json()).summary.total).toBe(200);
+      expect(finished).toEqual(['health', 'batch']);
+    });
+  });
+
+  // ==================== DOCS ====================
+
+  describe('GET /openapi.json', () => {
+    it('serves the generated document', async () => {
+      const { status, data } = await makeRequest('/openapi.json');
+      expect(status).toBe(200);
+      expect(data.openapi).toBe('3.1.0');
+      expect(data.paths).toHaveProperty('/match');
+    });
+  });
+});
+
+describe('createApp options', () => {
+  async function post(app: ReturnType<typeof createApp>, path: string, body: unknown) {
+    const server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    try {
+      const res = await fetch(`http://localhost:${(server.address() as any).port}${path}`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
+      });
+      return { status: res.status, data: await res.json() };
+    } finally {
+      server.close();
+    }
+  }
+
+  const request = { person: { name: 'Jane Doe' }, profiles: [{ platform: 'x', username: 'jd', displayName: 'Jane Doe' }] };
+
+  it('applies the configured scoring profile when the request names none', async () => {
+    const { data } = await post(createApp({ scoringProfile: 'fraud' }), '/match', request);
+    const { data: own } = await post(createApp({ scoringProfile: 'fraud' }), '/match', { ...request, scoringProfile: 'recruiting' });
+    expect(data.weights.phone).toBeGreaterThan(own.weights.phone);
+  });
+
+  it('rejects an unknown scoring profile at creation', () => {
+    expect(() => createApp({ scoringProfile: 'nope' })).toThrow('Unknown scoring profile');
+  });
+
+  it('enforces the configured body limit', async () => {
+    const app = createApp({ limits: { bodySize: '1kb' } });
+    const { status, data } = await post(app, '/match', { ...request, person: { name: 'x'.repeat(2000) } });
+    expect(status).toBe(413);
+    expect(data.error).toBe('Payload Too Large');
+  });
 });
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Server } from 'http';
+import { ApiKeyStore } from '../src/apikeys';
+import { createApp } from '../src/app';
+
+let now = Date.parse('2026-03-01T12:00:00Z');
+const clock = () => now;
+
+describe('ApiKeyStore', () => {
+  beforeEach(() => { now = Date.parse('2026-03-01T12:00:00Z'); });
+
+  it('accepts issued keys and rejects unknown or malformed ones', () => {
+    const store = new ApiKeyStore(undefined, { now: clock });
+    const { key, info } = store.create({ name: 'growth' });
+    expect(key).toMatch(/^pm_[0-9a-f]{12}_/);
+    expect(store.authorize(key)).toMatchObject({ allowed: true, key: { id: info.id } });
+    expect(store.authorize(undefined)).toMatchObject({ allowed: false, status: 401, message: 'Missing API key' });
+    expect(store.authorize(key.slice(0, -1) + (key.endsWith('A') ? 'B' : 'A'))).toMatchObject({ status: 401 });
+    expect(store.authorize('not-a-key')).toMatchObject({ status: 401 });
+  });
+
+  it('never exposes the secret or its hash', () => {
+    const store = new ApiKeyStore(undefined, { now: clock });
+    const { key, info } = store.create({ name: 'growth' });
+    expect(info).not.toHaveProperty('hash');
+    expect(store.list()[0]).not.toHaveProperty('hash');
+    expect(JSON.stringify(store.list())).not.toContain(key.split('_')[2]);
+  });
+
+  it('answers revoked keys with 403', () => {
+    const store = new ApiKeyStore(undefined, { now: clock });
+    const { key, info } = store.create({ name: 'growth' });
+    expect(store.revoke(info.id)).toBe(true);
+    expect(store.authorize(key)).toMatchObject({ allowed: false, status: 403 });
+    expect(store.revoke(info.id)).toBe(false);
+  });
+
+  it('rate limits with a refilling bucket', () => {
+    const store = new ApiKeyStore(undefined, { now: clock });
+    const { key } = store.create({ name: 'growth', rateLimit: { requests: 2, windowSeconds: 60 } });
+    expect(store.authorize(key).allowed).toBe(true);
+    expect(store.authorize(key).allowed).toBe(true);
+    expect(store.authorize(key)).toMatchObject({ allowed: false, status: 429, retryAfter: 30 });
+    now += 30_000;
+    expect(store.authorize(key).allowed).toBe(true);
+  });
+
+  it('enforces the daily quota until UTC midnight', () => {
+    const store = new ApiKeyStore(undefined, { now: clock });
+    const { key } = store.create({ name: 'growth', dailyQuota: 1 });
+    expect(store.authorize(key)).toMatchObject({ allowed: true, quotaRemaining: 0 });
+    expect(store.authorize(key)).toMatchObject({ allowed: false, status: 429, retryAfter: 12 * 3600 });
+    now = Date.parse('2026-03-02T00:00:01Z');
+    expect(store.authorize(key).allowed).toBe(true);
+  });
+
+  it('counts usage per day and persists it', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pm-keys-')), 'keys.json');
+    const store = new ApiKeyStore(file, { now: clock });
+    const { key, info } = store.create({ name: 'growth' });
+    store.authorize(key);
+    store.recordProfiles(info.id, 5);
+    now = Date.parse('2026-03-02T09:00:00Z');
+    store.authorize(key);
+    store.flush();
+
+    const reloaded = new ApiKeyStore(file, { now: clock });
+    expect(reloaded.usage(info.id)).toEqual({
+      '2026-03-01': { requests: 1, profiles: 5 },
+      '2026-03-02': { requests: 1, profiles: 0 },
+    });
+    expect(Object.keys(reloaded.usage(info.id, '2026-03-02'))).toEqual(['2026-03-02']);
+    expect(reloaded.authorize(key).allowed).toBe(true);
+    fs.rmSync(path.dirname(file), { recursive: true });
+  });
+});
+
+describe('API key authentication', () => {
+  let server: Server;
+  let baseUrl: string;
+  let store: ApiKeyStore;
+  let key: string;
+  let keyId: string;
+
+  const request = { person: { name: 'Jane Doe' }, profiles: [{ platform: 'x', username: 'a' }, { platform: 'y', username: 'b' }] };
+
+  async function call(route: string, init: { method?: string; headers?: Record<string, string>; body?: unknown } = {}) {
+    const res = await fetch(`${baseUrl}${route}`, {
+      method: init.method ?? (init.body ? 'POST' : 'GET'),
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    return { status: res.status, headers: res.headers, data: res.status === 204 ? null : await res.json() };
+  }
+
+  beforeEach(async () => {
+    now = Date.parse('2026-03-01T12:00:00Z');
+    store = new ApiKeyStore(undefined, { now: clock });
+    ({ key, info: { id: keyId } } = store.create({ name: 'growth', rateLimit: { requests: 3, windowSeconds: 60 } }));
+    server = createApp({ apiKeys: store, adminToken: 'admin' }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as any).port}`;
+  });
+
+  afterEach(() => { server.close(); });
+
+  it('requires a key on /match', async () => {
+    const { status, data } = await call('/match', { body: request });
+    expect(status).toBe(401);
+    expect(data.error).toBe('Unauthorized');
+  });
+
+  it('accepts X-API-Key and Bearer keys and reports remaining limits', async () => {
+    const viaHeader = await call('/match', { body: request, headers: { 'X-API-Key': key } });
+    expect(viaHeader.status).toBe(200);
+    expect(viaHeader.headers.get('X-RateLimit-Remaining')).toBe('2');
+    const viaBearer = await call('/match', { body: request, headers: { Authorization: `Bearer ${key}` } });
+    expect(viaBearer.status).toBe(200);
+  });
+
+  it('returns 429 with Retry-After once the rate limit is spent', async () => {
+    for (let i = 0; i < 3; i++) await call('/match', { body: request, headers: { 'X-API-Key': key } });
+    const { status, headers } = await call('/match', { body: request, headers: { 'X-API-Key': key } });
+    expect(status).toBe(429);
+    expect(Number(headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('leaves health and docs open', async () => {
+    expect((await call('/health')).status).toBe(200);
+    expect((await call('/openapi.json')).status).toBe(200);
+  });
+
+  it('records requests and scored profiles for charge-back', async () => {
+    await call('/match', { body: request, headers: { 'X-API-Key': key } });
+    await call('/match/batch', {
+      body: { items: [{ person: { name: 'A' } }, { person: { name: 'B' } }], profiles: request.profiles },
+      headers: { 'X-API-Key': key },
+    });
+    const { data } = await call(`/admin/keys/${keyId}/usage`, { headers: { 'X-Admin-Token': 'admin' } });
+    expect(data.total).toEqual({ requests: 2, profiles: 6 });
+  });
+
+  it('issues and revokes keys through the admin API', async () => {
+    const created = await call('/admin/keys', { body: { name: 'search', dailyQuota: 50 }, headers: { 'X-Admin-Token': 'admin' } });
+    expect(created.status).toBe(201);
+    expect(created.data).toMatchObject({ name: 'search', dailyQuota: 50 });
+    expect((await call('/match', { body: request, headers: { 'X-API-Key': created.data.key } })).status).toBe(200);
+
+    expect((await call(`/admin/keys/${created.data.id}`, { method: 'DELETE', headers: { 'X-Admin-Token': 'admin' } })).status).toBe(204);
+    const revoked = await call('/match', { body: request, headers: { 'X-API-Key': created.data.key } });
+    expect(revoked.status).toBe(403);
+  });
+
+  it('rejects a wrong or missing admin token', async () => {
+    for (const headers of [{ 'X-Admin-Token': 'admim' }, { 'X-Admin-Token': 'admin-and-more' }, {}]) {
+      expect((await call('/admin/keys', { body: { name: 'x' }, headers })).status).toBe(401);
+    }
+  });
+});
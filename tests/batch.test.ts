@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { matchBatchItem, runBatch, summarize } from '../src/batch';
+import { BatchMatchRequestSchema } from '../src/types';
+import { defaultWeights } from '../src/registry';
+
+const weights = defaultWeights();
+
+const shared = [
+  { platform: 'twitter', username: 'random', displayName: 'Someone Else' },
+  { platform: 'linkedin', username: 'janedoe', displayName: 'Jane Doe' },
+];
+
+describe('matchBatchItem', () => {
+  it('ranks shared profiles for a person', () => {
+    const result = matchBatchItem({ id: 'p1', person: { name: 'Jane Doe' } }, 0, shared, weights);
+    expect(result.id).toBe('p1');
+    expect(result.matches![0].profile.username).toBe('janedoe');
+    expect(result.error).toBeUndefined();
+  });
+
+  it('prefers per-item profiles over the shared pool', () => {
+    const own = [{ platform: 'github', username: 'jd', displayName: 'Jane Doe' }];
+    const result = matchBatchItem({ person: { name: 'Jane Doe' }, profiles: own }, 0, shared, weights);
+    expect(result.matches!.length).toBe(1);
+    expect(result.matches![0].profile.platform).toBe('github');
+  });
+
+  it('reports invalid items instead of throwing', () => {
+    const result = matchBatchItem({ id: 'bad', person: { name: 42 } }, 3, shared, weights);
+    expect(result.index).toBe(3);
+    expect(result.id).toBe('bad');
+    expect(result.error!.details[0].path).toBe('person.name');
+  });
+
+  it('reports items with no profiles to score', () => {
+    const result = matchBatchItem({ person: { name: 'Jane' } }, 0, undefined, weights);
+    expect(result.error!.details[0].path).toBe('profiles');
+  });
+});
+
+describe('runBatch', () => {
+  it('scores every item in order and isolates failures', () => {
+    const request = BatchMatchRequestSchema.parse({
+      items: [{ person: { name: 'Jane Doe' } }, 'not an item', { person: { name: 'Someone Else' } }],
+      profiles: shared,
+    });
+    const results = [...runBatch(request, weights)];
+    expect(results.map(r => r.index)).toEqual([0, 1, 2]);
+    expect(results[1].error).toBeDefined();
+    expect(results[2].matches![0].profile.username).toBe('random');
+    expect(summarize(results)).toEqual({ total: 3, succeeded: 2, failed: 1 });
+  });
+});
+
+describe('BatchMatchRequestSchema', () => {
+  it('requires at least one item', () => {
+    expect(BatchMatchRequestSchema.safeParse({ items: [], profiles: shared }).success).toBe(false);
+  });
+  it('allows more than 20 shared profiles', () => {
+    const profiles = Array.from({ length: 100 }, (_, i) => ({ platform: 'x', username: `u${i}` }));
+    expect(BatchMatchRequestSchema.safeParse({ items: [{ person: {} }], profiles }).success).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { bioClaims, parseBio } from '../src/bio';
+import { loadJobTitles } from '../src/job-titles';
+import { calculateMatchScore, matchEmployerInBio, matchJobTitleInBio } from '../src/matching';
+
+const BIO = 'Senior Software Engineer @ Acme Corp | she/her • 📍 Boston, MA 🎂 May 15 | jane@acme.com | +1 (555) 123-4567';
+
+describe('parseBio', () => {
+  it('splits at separators and emoji bullets', () => {
+    expect(parseBio(BIO).segments.map(s => s.text)).toEqual([
+      'Senior Software Engineer @ Acme Corp', 'she/her', '📍 Boston, MA', '🎂 May 15', 'jane@acme.com', '+1 (555) 123-4567',
+    ]);
+  });
+
+  it('reads one claim per fact, with spans into the bio', () => {
+    const { claims } = parseBio(BIO);
+    expect(claims.map(c => [c.kind, c.text, c.value])).toEqual([
+      ['role', 'Senior Software Engineer', 'senior engineering'],
+      ['employer', 'Acme Corp', 'Acme Corp'],
+      ['pronouns', 'she/her', 'she/her'],
+      ['location', 'Boston, MA', 'Boston (US-MA)'],
+      ['birth', '🎂 May 15', 'May 15'],
+      ['email', 'jane@acme.com', 'jane@acme.com'],
+      ['phone', '+1 (555) 123-4567', '+15551234567'],
+    ]);
+    for (const c of claims) expect(BIO.slice(c.start, c.end)).toBe(c.text);
+  });
+
+  it('marks past employers by the cue in their own clause', () => {
+    const employers = bioClaims('Ex-Google, Stanford alum. Formerly at Globex. SF-based', 'employer');
+    expect(employers.map(c => [c.text, c.past])).toEqual([['Google', 'ex'], ['Stanford', 'alum'], ['Globex', 'formerly']]);
+  });
+
+  it('trims locations to the place they name', () => {
+    expect(bioClaims('Based in NYC and loving it', 'location')[0]).toMatchObject({ text: 'NYC', place: 'New York City|US-NY' });
+    expect(bioClaims('Globex. SF-based', 'location')[0]).toMatchObject({ text: 'SF', place: 'San Francisco|US-CA' });
+    expect(bioClaims('Living in Portland, ME', 'location')[0]).toMatchObject({ text: 'Portland, ME', place: 'Portland|US-ME' });
+    expect(bioClaims('Posting from 2019 to 2023 in Berlin', 'location').map(c => c.text)).toEqual(['Berlin']);
+    expect(bioClaims('Lives in Portland, ME with my dog', 'location')[0]).toMatchObject({ text: 'Portland, ME', place: 'Portland|US-ME' });
+  });
+
+  it('scores a qualified bio location against the right namesake', () => {
+    const profile = { platform: 'x', username: 'jd', bio: 'Lives in Portland, ME with my dog' };
+    const maine = calculateMatchScore({ name: 'Jane Doe', location: 'Portland, ME' }, profile).factors.location_match!;
+    const oregon = calculateMatchScore({ name: 'Jane Doe', location: 'Portland, OR' }, profile).factors.location_match!;
+    expect(maine).toBeGreaterThan(oregon);
+  });
+
+  it('marks places moved away from as previous', () => {
+    const moves = bioClaims('Designer | NYC \u27a1\ufe0f SF', 'location');
+    expect(moves.map(c => [c.text, c.previous])).toEqual([['NYC', true], ['SF', undefined]]);
+  });
+
+  it('reads links, handles and hashtags without reading roles into them', () => {
+    const { claims } = parseBio('34 years old. https://janedoe.dev @janedoe #rustlang');
+    expect(claims.map(c => [c.kind, c.value])).toEqual([
+      ['birth', 'age 34'], ['url', 'https://janedoe.dev'], ['handle', '@janedoe'], ['hashtag', '#rustlang'],
+    ]);
+  });
+
+  it('reads phone numbers through the phone parser', () => {
+    expect(bioClaims('Call +44 (0)20 7946 0958 ext 12', 'phone').map(c => [c.text, c.value]))
+      .toEqual([['+44 (0)20 7946 0958 ext 12', '+442079460958']]);
+    expect(bioClaims('Order #12345678 shipped', 'phone')).toEqual([]);
+  });
+
+  it('hands out cached parses that cannot be changed', () => {
+    const { claims } = parseBio(BIO);
+    expect(() => { (claims[0] as { value: string }).value = 'changed'; }).toThrow(TypeError);
+    expect(() => claims.push(claims[0])).toThrow(TypeError);
+    expect(parseBio(BIO).claims[0].value).toBe('senior engineering');
+  });
+
+  it('reparses after the job title taxonomy loads more roles', () => {
+    const bio = 'Chief Vibes Officer at Acme';
+    expect(bioClaims(bio, 'role')).toEqual([]);
+    loadJobTitles({ version: 'test', abbreviations: {}, levels: {}, families: { culture: { titles: ['vibes officer'] } } });
+    expect(bioClaims(bio, 'role').map(c => c.value)).toEqual(['chief culture']);
+  });
+
+  it('keeps obfuscated addresses whole', () => {
+    const claims = parseBio('jane [at] hooli [dot] com · b. 5/15/90').claims;
+    expect(claims.map(c => [c.kind, c.value])).toEqual([['email', 'jane@hooli.com'], ['birth', "May 15, '90"]]);
+  });
+});
+
+describe('bio matchers', () => {
+  it('share the parsed claims', () => {
+    expect(matchEmployerInBio('Globex', 'Sr. Dev at Initech; formerly at Globex.')).toBeCloseTo(0.6);
+    expect(matchEmployerInBio('Acme', 'Big Acme fan')).toBe(1);
+    expect(matchJobTitleInBio('Software Engineer', 'https://janedoe.dev')).toBe(0);
+  });
+
+  it('return the parsed bio with explanations', () => {
+    const profile = { platform: 'x', username: 'jdoe', bio: BIO };
+    expect(calculateMatchScore({ name: 'Jane Doe' }, profile).bio).toBeUndefined();
+    expect(calculateMatchScore({ name: 'Jane Doe' }, profile, undefined, { explain: true }).bio).toEqual(parseBio(BIO));
+  });
+});
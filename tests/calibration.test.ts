@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app';
+import { ProfileMatcher } from '../src/profile-matcher';
+import { factorLogOdds, parseLabelledPairs, trainScoringModel } from '../src/calibration';
+import { calculateMatchScore } from '../src/matching';
+import { classificationMetrics, rocAuc } from '../src/metrics';
+import { LabelledPair, ScoringModelSchema } from '../src/types';
+
+const given = ['Jane', 'John', 'Maria', 'Wei', 'Ahmed', 'Olga', 'Pierre', 'Aiko', 'Carlos', 'Fatima'];
+const family = ['Doe', 'Smith', 'Garcia', 'Chen', 'Khan', 'Ivanova', 'Martin', 'Sato', 'Lopez', 'Haddad'];
+const cities = ['Boston, MA', 'London, UK', 'Berlin, Germany', 'Tokyo, Japan', 'Paris, France'];
+const employers = ['Acme', 'Globex', 'Initech', 'Umbrella', 'Hooli'];
+
+// Each person's own profile (sometimes with a short name, another city or no employer) and a stranger's,
+// who sometimes shares a given name, a city or an employer
+function labelledPairs(count = 60): LabelledPair[] {
+  const pairs: LabelledPair[] = [];
+  for (let i = 0; i < count; i++) {
+    const g = given[i % 10], f = family[(i * 3) % 10], city = cities[i % 5], employer = employers[(i * 2) % 5];
+    const person = { name: `${g} ${f}`, location: city, employer, email: `${g}.${f}@${employer}.com`.toLowerCase() };
+    const og = given[(i + 3) % 10], of = family[(i * 3 + 1) % 10];
+    pairs.push({ person, isMatch: true, profile: {
+      platform: 'x', username: `${g}${f}`.toLowerCase(), displayName: i % 4 ? `${g} ${f}` : g,
+      location: i % 3 ? city : cities[(i + 1) % 5], bio: i % 2 ? `Engineer at ${employer}` : 'Coffee',
+    } });
+    pairs.push({ person, isMatch: false, profile: {
+      platform: 'x', username: `${og}${i}`.toLowerCase(), displayName: i % 5 ? `${og} ${of}` : `${g} ${of}`,
+      location: i % 4 ? cities[(i + 2) % 5] : city, bio: i % 3 ? `Works at ${employers[(i * 2 + 1) % 5]}` : `Engineer at ${employer}`,
+    } });
+  }
+  return pairs;
+}
+
+describe('metrics', () => {
+  it('computes AUC with ties', () => {
+    expect(rocAuc([{ score: 0.9, isMatch: true }, { score: 0.1, isMatch: false }])).toBe(1);
+    expect(rocAuc([{ score: 0.5, isMatch: true }, { score: 0.5, isMatch: false }])).toBe(0.5);
+    expect(rocAuc([{ score: 0.5, isMatch: true }])).toBeNull();
+  });
+
+  it('computes precision and recall at a threshold', () => {
+    const scored = [
+      { score: 0.9, isMatch: true }, { score: 0.7, isMatch: false }, { score: 0.4, isMatch: true }, { score: 0.1, isMatch: false },
+    ];
+    expect(classificationMetrics(scored, 0.5)).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1, precision: 0.5, recall: 0.5 });
+  });
+});
+
+describe('parseLabelledPairs', () => {
+  it('reads JSONL and skips blank lines', () => {
+    const line = JSON.stringify({ person: { name: 'Jane' }, profile: { platform: 'x', username: 'jane' }, isMatch: true });
+    expect(parseLabelledPairs(`${line}\n\n${line}\n`)).toHaveLength(2);
+  });
+
+  it('names the offending line', () => {
+    expect(() => parseLabelledPairs('\n{oops')).toThrow('Line 2: invalid JSON');
+    expect(() => parseLabelledPairs('{"person":{},"profile":{"platform":"x","username":"a"}}')).toThrow('Line 1: isMatch: Required');
+  });
+});
+
+describe('trainScoringModel', () => {
+  const model = trainScoringModel(labelledPairs(), { seed: 7 });
+
+  it('writes a valid model with held-out metrics', () => {
+    expect(ScoringModelSchema.parse(model)).toEqual(model);
+    expect(model.metrics).toMatchObject({ train: 96, test: 24, threshold: 0.5 });
+    expect(model.metrics!.auc).toBeGreaterThan(0.9);
+    expect(model.metrics!.baselineAuc).not.toBeNull();
+  });
+
+  it('learns positive coefficients for informative factors', () => {
+    expect(model.factors.name.score).toBeGreaterThan(0);
+    expect(model.factors.emailUsername.score).toBeGreaterThan(0);
+    expect(Object.values(model.weights).reduce((a, b) => a + b, 0)).toBeCloseTo(1, 3);
+  });
+
+  it('is repeatable for a seed', () => {
+    const { trainedAt: _a, ...first } = trainScoringModel(labelledPairs(), { seed: 3 });
+    const { trainedAt: _b, ...second } = trainScoringModel(labelledPairs(), { seed: 3 });
+    expect(first).toEqual(second);
+  });
+
+  it('rejects data it cannot fit', () => {
+    expect(() => trainScoringModel(labelledPairs(1))).toThrow('Too few labelled pairs');
+    expect(() => trainScoringModel(labelledPairs().filter(p => p.isMatch))).toThrow('both matches and non-matches');
+    expect(() => trainScoringModel(labelledPairs(), { holdout: 1 })).toThrow('holdout');
+  });
+});
+
+describe('scoring with a model', () => {
+  const model = trainScoringModel(labelledPairs(), { seed: 7 });
+  const [match, stranger] = labelledPairs(1);
+
+  it('returns the model probability instead of the weighted average', () => {
+    const result = calculateMatchScore(match.person, match.profile, undefined, { model, explain: true });
+    const logOdds = model.intercept + Object.values(result.explanation!).reduce((sum, e) => sum + e.contribution, 0);
+    expect(result.score).toBeCloseTo(1 / (1 + Math.exp(-logOdds)), 2);
+    expect(result.explanation!.name_match.weight).toBe(model.factors.name.score);
+    const name = result.explanation!.name_match;
+    expect(name.contribution).toBeCloseTo(factorLogOdds(model, 'name', name.score), 4);
+    expect(calculateMatchScore(stranger.person, stranger.profile, undefined, { model }).score).toBeLessThan(result.score);
+  });
+
+  it('is used by ProfileMatcher unless weights are given', () => {
+    expect(new ProfileMatcher({ model }).weights).toEqual(model.weights);
+    expect(new ProfileMatcher({ model, weights: { name: 1 } }).weights).not.toEqual(model.weights);
+  });
+
+  it('is used by the API unless the request picks weights', async () => {
+    const server = createApp({ model }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    const post = async (body: unknown) => {
+      const res = await fetch(`http://localhost:${(server.address() as any).port}/match`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
+      });
+      return res.json();
+    };
+    try {
+      const scored = await post({ person: match.person, profiles: [match.profile] });
+      expect(scored.weights).toEqual(model.weights);
+      expect(scored.matches[0].score).toBe(calculateMatchScore(match.person, match.profile, undefined, { model }).score);
+      const weighted = await post({ person: match.person, profiles: [match.profile], scoringProfile: 'strict' });
+      expect(weighted.weights).not.toEqual(model.weights);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('rejects an invalid model at startup', () => {
+    expect(() => createApp({ model: { ...model, kind: 'linear' } as never })).toThrow();
+  });
+});
@@ -57,8 +57,8 @@ describe('matchEmployerInBio edge cases', () => {
 
 describe('matchJobTitleInBio edge cases', () => {
   it('exact match at start', () => expect(matchJobTitleInBio('Engineer', 'Engineer at Acme')).toBe(1));
-  it('title with level', () => expect(matchJobTitleInBio('Software Engineer', 'Senior Software Engineer')).toBe(1));
-  it('abbreviated title', () => expect(matchJobTitleInBio('Software Engineer', 'SWE at Google')).toBe(0)); // Won't match abbreviation
+  it('title with level', () => expect(matchJobTitleInBio('Software Engineer', 'Senior Software Engineer')).toBe(0.7));
+  it('abbreviated title', () => expect(matchJobTitleInBio('Software Engineer', 'SWE at Google')).toBe(1));
   it('different role', () => expect(matchJobTitleInBio('Designer', 'Software Engineer')).toBe(0));
   it('manager title', () => expect(matchJobTitleInBio('Product Manager', 'Product Manager | Speaker')).toBe(1));
 });
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Server } from 'http';
+import { ageOn, extractBirthClaims, parseDate, zodiacSign } from '../src/dates';
+import { calculateMatchScore, matchDateOfBirth } from '../src/matching';
+import { createApp } from '../src/app';
+
+const reference = new Date('2024-06-01T00:00:00Z');
+const dob = (bio: string, born = '1990-05-15') => matchDateOfBirth(born, bio, undefined, reference);
+
+describe('parseDate', () => {
+  it('reads full dates in several formats', () => {
+    for (const text of ['1990-05-15', '05/15/1990', '15/05/1990', '15.05.1990', 'May 15, 1990', '15th of May 1990']) {
+      expect(parseDate(text)).toEqual({ year: 1990, month: 5, day: 15 });
+    }
+  });
+
+  it('reads partial dates', () => {
+    expect(parseDate('May 1990')).toEqual({ year: 1990, month: 5 });
+    expect(parseDate('5/15')).toEqual({ month: 5, day: 15 });
+    expect(parseDate('5/15/90')).toEqual({ year: 90, twoDigitYear: true, month: 5, day: 15 });
+  });
+
+  it('rejects impossible and unrecognised dates', () => {
+    expect(parseDate('1990-02-30')).toBeNull();
+    expect(parseDate('2/29/1991')).toBeNull();
+    expect(parseDate('next tuesday')).toBeNull();
+  });
+});
+
+describe('ageOn and zodiacSign', () => {
+  it('counts whole years up to the last birthday', () => {
+    expect(ageOn({ year: 1990, month: 5, day: 15 }, reference)).toBe(34);
+    expect(ageOn({ year: 1990, month: 6, day: 2 }, reference)).toBe(33);
+    expect(ageOn({ year: 1990 }, reference)).toBeNull();
+  });
+
+  it('finds the sign, including across the new year', () => {
+    expect(zodiacSign(5, 15)).toBe('taurus');
+    expect(zodiacSign(1, 5)).toBe('capricorn');
+    expect(zodiacSign(12, 25)).toBe('capricorn');
+  });
+});
+
+describe('extractBirthClaims', () => {
+  it('finds dates, ages, graduation years and signs', () => {
+    const claims = extractBirthClaims('🎂 May 15 | b. 5/15/90 | 34yo | class of 2008 | ♉');
+    expect(claims.map(c => c.kind)).toEqual(['date', 'date', 'age', 'graduation', 'zodiac']);
+  });
+
+  it('ignores text that only looks like a date', () => {
+    expect(extractBirthClaims('Born in Chicago, 1990s kid, 100 years old')).toEqual([]);
+  });
+});
+
+describe('matchDateOfBirth', () => {
+  it('full and two-digit-year dates', () => {
+    expect(dob('b. 5/15/90')).toBe(1);
+    expect(dob('DOB: 15 May 1991')).toBe(0.7);
+  });
+  it('birthday without a year', () => expect(dob('🎂 May 15')).toBe(0.8));
+  it('contradicting birthday', () => expect(dob('bday 6/1')).toBe(0));
+
+  it('works out ages on the reference date', () => {
+    expect(dob('34 years old')).toBe(1);
+    expect(dob('33 y/o')).toBe(0.7);
+    expect(matchDateOfBirth('1990-05-15', '34 years old', undefined, new Date('2024-05-14'))).toBe(0.7);
+    expect(dob('aged 34', '1990')).toBe(0.9);
+  });
+
+  it('uses graduation years and signs only without a date or age', () => {
+    expect(dob('class of 2008')).toBe(0.5);
+    expect(dob('♉')).toBe(0.4);
+    expect(dob('Born 1985 ♉')).toBe(0);
+  });
+
+  it('explains each claim', () => {
+    const evidence: string[] = [];
+    matchDateOfBirth('1990-05-15', '🎂 May 15', evidence, reference);
+    expect(evidence).toEqual(['"🎂 May 15" matches the birthday of May 15, 1990']);
+  });
+
+  it('only applies when the bio says something about age', () => {
+    const person = { name: 'Jane Doe', dateOfBirth: '1990-05-15' };
+    const result = calculateMatchScore(person, { platform: 'x', username: 'a', displayName: 'Jane Doe', bio: 'Engineer' });
+    expect(result.factors).not.toHaveProperty('dob_match');
+  });
+});
+
+describe('referenceDate over HTTP', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  async function match(body: unknown) {
+    const res = await fetch(`${baseUrl}/match`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, data: await res.json() };
+  }
+
+  beforeAll(async () => {
+    server = createApp({ logger: { info: () => {}, error: () => {} } }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as any).port}`;
+  });
+
+  afterAll(() => { server.close(); });
+
+  const body = { person: { dateOfBirth: '1990-05-15' }, profiles: [{ platform: 'x', username: 'a', bio: '30 years old' }] };
+
+  it('scores ages as of the reference date', async () => {
+    expect((await match({ ...body, referenceDate: '2020-06-01' })).data.matches[0].factors.dob_match).toBe(1);
+    expect((await match({ ...body, referenceDate: '2024-06-01' })).data.matches[0].factors.dob_match).toBe(0);
+  });
+
+  it('rejects dates that are not ISO 8601', async () => {
+    const { status, data } = await match({ ...body, referenceDate: 'June 1st' });
+    expect(status).toBe(400);
+    expect(data.details[0].path).toBe('referenceDate');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { domainMatchesEmployer, extractEmails, normalizeEmail } from '../src/email';
+import { calculateMatchScore, matchEmailInBio } from '../src/matching';
+import { linkProfiles } from '../src/identity';
+import { ProfileStore } from '../src/profiles';
+
+describe('normalizeEmail', () => {
+  it('lowercases and drops plus tags', () => expect(normalizeEmail('Jane.Doe+news@Acme.com')).toBe('jane.doe@acme.com'));
+  it('ignores dots in Gmail addresses', () => expect(normalizeEmail('j.a.n.e@googlemail.com')).toBe('jane@gmail.com'));
+  it('rejects non-addresses', () => expect(normalizeEmail('@handle')).toBe(''));
+});
+
+describe('extractEmails', () => {
+  it('reads plain and spelled-out addresses', () => {
+    const found = extractEmails('Mail Jane.Doe+work@Acme.com. Or jane [at] acme [dot] io, j(at)x.io; not @handle');
+    expect(found.map(e => e.normalized)).toEqual(['jane.doe@acme.com', 'jane@acme.io', 'j@x.io']);
+  });
+
+  it('de-duplicates by normalized address', () => {
+    expect(extractEmails('janedoe@gmail.com / jane.doe+x@gmail.com')).toHaveLength(1);
+  });
+});
+
+describe('domainMatchesEmployer', () => {
+  it('matches company domains', () => {
+    expect(domainMatchesEmployer('acme-corp.com', 'Acme Corp.')).toBe(true);
+    expect(domainMatchesEmployer('mail.acme.co.uk', 'ACME Ltd')).toBe(true);
+  });
+  it('never matches free-mail domains', () => expect(domainMatchesEmployer('gmail.com', 'Gmail')).toBe(false));
+  it('rejects other companies', () => expect(domainMatchesEmployer('initech.com', 'Acme')).toBe(false));
+  it('matches whole words of the name only', () => {
+    expect(domainMatchesEmployer('acme.com', 'Acme Widgets')).toBe(true);
+    expect(domainMatchesEmployer('applebees.com', 'Apple')).toBe(false);
+    expect(domainMatchesEmployer('metalworks.com', 'Meta')).toBe(false);
+    expect(domainMatchesEmployer('meta.com', 'Metadata Inc')).toBe(false);
+    expect(domainMatchesEmployer('amazonia.org', 'Amazon')).toBe(false);
+  });
+});
+
+describe('matchEmailInBio', () => {
+  it('exact address after normalization', () => {
+    expect(matchEmailInBio(['jane@acme.com', 'jane.doe@gmail.com'], undefined, 'reach me: janedoe+x@gmail.com')).toBe(1);
+  });
+  it('employer domain with the same mailbox', () => expect(matchEmailInBio('jane.doe@gmail.com', 'Acme', 'jane.doe@acme.io')).toBe(0.85));
+  it('employer domain alone', () => expect(matchEmailInBio(undefined, 'Acme', 'jobs@acme.com')).toBe(0.6));
+  it('shared company domain', () => expect(matchEmailInBio('jane@initech.com', undefined, 'bob@initech.com')).toBe(0.5));
+  it('a shared free-mail domain is not evidence', () => expect(matchEmailInBio('jane@gmail.com', undefined, 'bob@gmail.com')).toBe(0));
+});
+
+describe('email factor', () => {
+  const person = { name: 'Jane Doe', email: 'jane.doe@example.com' };
+
+  it('only applies when the bio contains an address', () => {
+    const result = calculateMatchScore(person, { platform: 'x', username: 'jd', displayName: 'Jane Doe', bio: 'Engineer' });
+    expect(result.factors).not.toHaveProperty('email_in_bio');
+  });
+
+  it('without the person\'s address, only applies to one at the employer\'s domain', () => {
+    const employee = { name: 'Jane Doe', employer: 'Acme' };
+    const bio = (address: string) => ({ platform: 'x', username: 'jd', displayName: 'Jane Doe', bio: `Engineer at Acme. Booking: ${address}` });
+    const booking = calculateMatchScore(employee, bio('agent@talent.com'));
+    expect(booking.factors).not.toHaveProperty('email_in_bio');
+    expect(booking.score).toBe(1);
+    expect(calculateMatchScore(employee, bio('jane@acme.com')).factors.email_in_bio).toBe(0.6);
+    const apple = calculateMatchScore({ name: 'Jane Doe', employer: 'Apple' }, bio('events@applebees.com'));
+    expect(apple.factors).not.toHaveProperty('email_in_bio');
+  });
+
+  it('weighs an employer-domain address like the email-derived username', () => {
+    const employee = { name: 'Jane Doe', employer: 'Acme' };
+    const profile = (bio: string) => ({ platform: 'x', username: 'qq', displayName: 'Jane Doe', bio });
+    const result = calculateMatchScore(employee, profile('Designer at Acme. Jobs: jobs@acme.com'));
+    expect(result.factors).toEqual({ name_match: 1, employer_in_bio: 1, email_in_bio: 0.6 });
+    expect(result.score).toBe(Math.round(((0.30 + 0.18 + 0.6 * 0.18) / 0.66) * 100) / 100);
+    expect(calculateMatchScore(employee, profile('Designer at Acme')).score).toBe(1);
+  });
+
+  it('treats the person\'s own address as conclusive', () => {
+    const result = calculateMatchScore(person, { platform: 'x', username: 'qq', displayName: 'JD', bio: 'Mail me: jane.doe@example.com' });
+    expect(result.factors.email_in_bio).toBe(1);
+    expect(result.score).toBe(0.95);
+    expect(result.tier).toBe('definite');
+  });
+
+  it('scores an address from the bio', () => {
+    const result = calculateMatchScore(person, { platform: 'x', username: 'jd', bio: 'Contact: jane.doe [at] example [dot] com' });
+    expect(result.factors.email_in_bio).toBe(1);
+  });
+
+  it('links profiles whose bios list the same address', () => {
+    const link = linkProfiles(
+      { platform: 'x', username: 'a1', bio: 'jane.doe@example.com' },
+      { platform: 'y', username: 'b2', bio: 'Mail: Jane.Doe+y@example.com' },
+    )!;
+    expect(link.evidence).toEqual(['both bios list jane.doe@example.com']);
+  });
+
+  it('finds stored profiles by the address in their bio', () => {
+    const store = new ProfileStore();
+    store.upsert([{ platform: 'x', username: 'zz', bio: 'jane.doe@example.com' }]);
+    expect(store.candidates({ email: 'Jane.Doe+news@example.com' }).map(p => p.username)).toEqual(['zz']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { diffReports, evaluate, formatDiff, formatReport } from '../src/evaluation';
+import { resolveWeights } from '../src/scoring';
+import { LabelledPair } from '../src/types';
+
+const person = { name: 'Jane Doe', location: 'Boston, MA', employer: 'Acme' };
+const pairs: LabelledPair[] = [
+  { id: 'own-twitter', person, isMatch: true, profile: { platform: 'twitter', username: 'janedoe', displayName: 'Jane Doe', location: 'Boston' } },
+  { id: 'own-github', person, isMatch: true, profile: { platform: 'GitHub', username: 'jd', displayName: 'J. Doe', location: 'Tokyo' } },
+  { id: 'namesake', person, isMatch: false, profile: { platform: 'twitter', username: 'jane_d', displayName: 'Jane Doe', location: 'Boston' } },
+  { id: 'stranger', person, isMatch: false, profile: { platform: 'github', username: 'bob', displayName: 'Bob Roe', location: 'Paris' } },
+];
+
+describe('evaluate', () => {
+  const report = evaluate(pairs, { threshold: 0.7, thresholds: [0.5, 0.9] });
+
+  it('reports precision, recall and F1 at each threshold', () => {
+    expect(report).toMatchObject({ pairs: 4, matches: 2, threshold: 0.7 });
+    expect(report.thresholds.map(t => t.threshold)).toEqual([0.5, 0.7, 0.9]);
+    expect(report.thresholds[1]).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1, precision: 0.5, recall: 0.5 });
+  });
+
+  it('breaks outcomes down by platform and factor', () => {
+    expect(Object.keys(report.byPlatform)).toEqual(['github', 'twitter']);
+    expect(report.byPlatform.github).toMatchObject({ pairs: 2, matches: 1, falseNegatives: 1, trueNegatives: 1 });
+    expect(report.byFactor.name_match).toMatchObject({ pairs: 4, meanScore: { nonMatch: expect.any(Number) } });
+    expect(report.byFactor.location_match.pairs).toBe(4);
+  });
+
+  it('lists the worst false positives and negatives', () => {
+    expect(report.worst.falsePositives.map(s => s.id)).toEqual(['namesake']);
+    expect(report.worst.falseNegatives.map(s => s.id)).toEqual(['own-github']);
+    expect(report.worst.falseNegatives[0]).toMatchObject({ index: 2, isMatch: true, factors: { name_match: 0.8 } });
+  });
+
+  it('reads as text', () => {
+    const text = formatReport(report);
+    expect(text).toContain('4 pairs (2 matches)');
+    expect(text).toContain('Worst false positives:\n  #3 namesake');
+  });
+
+  it('rejects an empty dataset', () => expect(() => evaluate([])).toThrow('No labelled pairs'));
+});
+
+describe('diffReports', () => {
+  const base = evaluate(pairs, { threshold: 0.7 });
+
+  it('reports changes between runs', () => {
+    const head = evaluate(pairs, { threshold: 0.7, weights: resolveWeights({ location: 0 }) });
+    const diff = diffReports(base, head);
+    expect(diff.warning).toBeUndefined();
+    const at = diff.thresholds.find(t => t.threshold === 0.7)!;
+    expect(at.recall).toBe(0.5);
+    expect(formatDiff(diff)).toContain('threshold 0.7: +50.0% recall, +16.7% precision, +30.0% F1');
+  });
+
+  it('says when nothing changed or the datasets differ', () => {
+    expect(formatDiff(diffReports(base, base))).toBe('No change in precision, recall, F1 or AUC');
+    expect(diffReports(base, evaluate(pairs.slice(1))).warning).toContain('different datasets');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMatchScore, matchName, matchLocation, matchEmployerInBio, matchPhoneInBio, matchEmailToUsername,
+} from '../src/matching';
+import { MatchRequestSchema } from '../src/types';
+
+describe('matcher evidence', () => {
+  it('reports the nickname pair', () => {
+    const evidence: string[] = [];
+    matchName('William Smith', 'Bill Smith', evidence);
+    expect(evidence[0]).toContain('"william" ↔ "bill"');
+  });
+
+  it('reports the resolved place', () => {
+    const evidence: string[] = [];
+    matchLocation('San Francisco', 'SF', evidence);
+    expect(evidence[0]).toContain('San Francisco (US-CA)');
+  });
+
+  it('reports matched employer words', () => {
+    const evidence: string[] = [];
+    matchEmployerInBio('Acme Widgets', 'Working at Acme', evidence);
+    expect(evidence[0]).toContain('"acme"');
+  });
+
+  it('reports matched phone digits', () => {
+    const evidence: string[] = [];
+    matchPhoneInBio('+1-555-123-4567', 'Contact: 1234567', evidence);
+    expect(evidence[0]).toContain('1234567');
+  });
+
+  it('reports which email matched', () => {
+    const evidence: string[] = [];
+    matchEmailToUsername(['work@co.com', 'janedoe@gmail.com'], 'janedoe', evidence);
+    expect(evidence[0]).toContain('janedoe@gmail.com');
+  });
+
+  it('leaves scores unchanged', () => {
+    expect(matchName('William Smith', 'Bill Smith', [])).toBe(matchName('William Smith', 'Bill Smith'));
+  });
+});
+
+describe('calculateMatchScore explain option', () => {
+  const person = { name: 'Jane Doe', employer: 'Acme Corp', location: 'San Francisco' };
+  const profile = { platform: 'x', username: 'jd', displayName: 'Jane Doe', bio: 'Engineer at Acme', location: 'SF' };
+
+  it('omits the explanation by default', () => {
+    expect(calculateMatchScore(person, profile).explanation).toBeUndefined();
+  });
+
+  it('explains each applied factor', () => {
+    const result = calculateMatchScore(person, profile, undefined, { explain: true });
+    expect(Object.keys(result.explanation!)).toEqual(Object.keys(result.factors));
+    expect(result.explanation!.name_match.evidence.length).toBeGreaterThan(0);
+    expect(result.explanation!.employer_in_bio.matcher).toBe('employer');
+  });
+
+  it('contributions add up to the score', () => {
+    const result = calculateMatchScore(person, profile, undefined, { explain: true });
+    const total = Object.values(result.explanation!).reduce((sum, e) => sum + e.contribution, 0);
+    expect(Math.abs(total - result.score)).toBeLessThanOrEqual(0.005 + 1e-9); // score is rounded to 2 places
+  });
+
+  it('is accepted by the request schema', () => {
+    expect(MatchRequestSchema.safeParse({ person: {}, profiles: [{ platform: 'x', username: 'a' }], explain: true }).success).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { distanceKm, primaryLocation, resolveLocation } from '../src/gazetteer';
+import { matchLocation, matchLocations } from '../src/matching';
+
+describe('resolveLocation', () => {
+  it('abbreviation', () => expect(resolveLocation('SF')?.id).toBe('San Francisco|US-CA'));
+  it('metro alias', () => expect(resolveLocation('Bay Area')?.kind).toBe('metro'));
+  it('state code disambiguates', () => expect(resolveLocation('Portland, ME')?.region).toBe('US-ME'));
+  it('state name without comma', () => expect(resolveLocation('Portland Oregon')?.region).toBe('US-OR'));
+  it('country code disambiguates', () => expect(resolveLocation('London, CA')?.region).toBe('CA-ON'));
+  it('largest city wins when unqualified', () => expect(resolveLocation('London')?.country).toBe('GB'));
+  it('qualifier only', () => expect(resolveLocation('Somewhere, California')?.id).toBe('US-CA'));
+  it('place inside free text', () => expect(resolveLocation('Greater Seattle Area')?.id).toBe('seattle-metro'));
+  it('accent-insensitive', () => expect(resolveLocation('Zurich')?.id).toBe(resolveLocation('Zürich')?.id));
+  it('unknown', () => expect(resolveLocation('Gotham')).toBeUndefined());
+  it('unknown qualifier leaves a namesake ambiguous', () => {
+    expect(resolveLocation('San Jose, Costa Rica')).toBeUndefined();
+    expect(resolveLocation('Portland, Narnia')).toBeUndefined();
+    expect(resolveLocation('Seattle, WA 98101')?.id).toBe('Seattle|US-WA');
+  });
+
+  it('distance between cities', () => {
+    const km = distanceKm(resolveLocation('New York')!, resolveLocation('Boston')!)!;
+    expect(km).toBeGreaterThan(290);
+    expect(km).toBeLessThan(320);
+  });
+});
+
+describe('matchLocation with the gazetteer', () => {
+  it('same metro', () => expect(matchLocation('Oakland, CA', 'San Francisco')).toBeGreaterThanOrEqual(0.85));
+  it('same name, different state', () => expect(matchLocation('Portland, OR', 'Portland, ME')).toBeLessThan(0.3));
+  it('same name, different country', () => expect(matchLocation('Paris', 'Paris, TX')).toBe(0));
+  it('city within region', () => expect(matchLocation('Boulder, CO', 'Colorado')).toBe(0.7));
+  it('same state only', () => expect(matchLocation('Austin', 'Houston')).toBe(0.4));
+  it('nearby cities outside a shared metro', () => expect(matchLocation('San Jose', 'Santa Cruz')).toBe(0.8));
+  it('same name, unknown foreign country', () => expect(matchLocation('San Jose, CA', 'San Jose, Costa Rica')).toBeLessThan(0.7));
+
+  it('falls back to string similarity for unknown places', () => {
+    const evidence: string[] = [];
+    matchLocation('Gotham', 'Gotham City', evidence);
+    expect(evidence[0]).toContain('contained in');
+  });
+});
+
+describe('matchLocations', () => {
+  const now = new Date('2024-06-01');
+
+  it('keeps the best pairing among several locations', () => {
+    const evidence: string[] = [];
+    const score = matchLocations(['Austin', { place: 'Berlin', type: 'work' }], 'Berlin, Germany', undefined, evidence, now);
+    expect(score).toBe(0.95);
+    expect(evidence[0]).toBe('work location "Berlin" vs profile location "Berlin, Germany"');
+  });
+
+  it('discounts locations the person has left', () => {
+    const left = matchLocations([{ place: 'Berlin', from: '2015', to: '2019-06' }], 'Berlin', undefined, undefined, now);
+    expect(left).toBeCloseTo(0.8);
+    expect(matchLocations([{ place: 'Berlin', to: '2030' }], 'Berlin', undefined, undefined, now)).toBe(1);
+    expect(matchLocations([{ place: 'Berlin', type: 'previous' }], 'Berlin', undefined, undefined, now)).toBeCloseTo(0.8);
+  });
+
+  it('reads places from the bio when the profile has no location', () => {
+    const evidence: string[] = [];
+    expect(matchLocations('San Francisco', undefined, 'Designer | NYC \u2192 SF', evidence, now)).toBeCloseTo(0.855);
+    expect(evidence[0]).toBe('location "San Francisco" vs bio location "SF"');
+    // A place moved away from is a previous location
+    expect(matchLocations('New York', undefined, 'NYC -> SF', undefined, now)).toBeCloseTo(0.684);
+    expect(matchLocations('Berlin', 'Paris', '\u{1F4CD} Berlin', undefined, now)).toBe(0);
+  });
+});
+
+describe('primaryLocation', () => {
+  it('prefers a current home', () => {
+    expect(primaryLocation(['London', { place: 'Berlin', type: 'home' }])).toBe('Berlin');
+    expect(primaryLocation([{ place: 'Paris', to: '2019' }, 'Rome'])).toBe('Rome');
+    expect(primaryLocation('Oslo')).toBe('Oslo');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Server } from 'http';
+import { linkProfiles, resolveIdentity } from '../src/identity';
+import { createApp } from '../src/app';
+
+const person = { name: 'Jane Doe', email: 'jane.doe@example.com', location: 'San Francisco, CA', employer: 'Acme' };
+
+const twitterReal = {
+  platform: 'twitter', username: 'janedoe_sf', displayName: 'Jane Doe', location: 'San Francisco',
+  bio: 'Engineer. Code at github.com/janedoe',
+};
+const twitterOther = { platform: 'twitter', username: 'jd_photos', displayName: 'Jane Doe', location: 'San Francisco' };
+const github = { platform: 'github', username: 'janedoe', displayName: 'Jane Doe', bio: 'Engineer at Acme' };
+const stranger = { platform: 'reddit', username: 'xyz123', displayName: 'Bob Stone', location: 'Tokyo' };
+
+describe('linkProfiles', () => {
+  it('links profiles through bio cross-links', () => {
+    const link = linkProfiles(twitterReal, github)!;
+    expect(link.confidence).toBeGreaterThanOrEqual(0.95);
+    expect(link.evidence).toContain('twitter/janedoe_sf bio links to github/janedoe');
+  });
+
+  it('links profiles by username and display name', () => {
+    const link = linkProfiles(github, { platform: 'gitlab', username: 'janedoe', displayName: 'Jane Doe' })!;
+    expect(link.evidence).toEqual(expect.arrayContaining(['same username "janedoe"']));
+    expect(link.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('reads profile links on any known platform from the parsed bio', () => {
+    const linkedin = { platform: 'LinkedIn', username: 'jane-doe-1', displayName: 'J. D.' };
+    const link = linkProfiles({ platform: 'x', username: 'a', bio: 'CV: https://www.linkedin.com/in/Jane-Doe-1/' }, linkedin)!;
+    expect(link.evidence).toContain('x/a bio links to LinkedIn/jane-doe-1');
+  });
+
+  it('does not treat a longer handle as a link', () => {
+    expect(linkProfiles({ platform: 'x', username: 'a', bio: 'see github.com/janedoe2' }, github)).toBeNull();
+  });
+
+  it('returns null when nothing connects two profiles', () => {
+    expect(linkProfiles(github, stranger)).toBeNull();
+  });
+});
+
+describe('resolveIdentity', () => {
+  it('keeps one profile per platform, preferring the corroborated one', () => {
+    const graph = resolveIdentity(person, [twitterOther, twitterReal, github, stranger]);
+    expect(graph.profiles.map(p => p.id).sort()).toEqual(['github/janedoe', 'twitter/janedoe_sf']);
+    expect(graph.rejected).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'twitter/jd_photos', reason: 'platform_limit' }),
+      expect.objectContaining({ id: 'reddit/xyz123', reason: 'below_min_score' }),
+    ]));
+  });
+
+  it('counts X and Twitter as one platform', () => {
+    const graph = resolveIdentity(person, [{ ...twitterOther, platform: 'X' }, twitterReal, github]);
+    expect(graph.rejected).toEqual([expect.objectContaining({ id: 'x/jd_photos', reason: 'platform_limit' })]);
+  });
+
+  it('raises the confidence of linked profiles above their own score', () => {
+    const graph = resolveIdentity(person, [twitterReal, github]);
+    const second = graph.profiles[1];
+    expect(second.confidence).toBeGreaterThan(second.score);
+  });
+
+  it('returns person links and links between chosen profiles', () => {
+    const graph = resolveIdentity(person, [twitterReal, github]);
+    expect(graph.links.filter(l => l.kind === 'person')).toHaveLength(2);
+    expect(graph.links.find(l => l.kind === 'profile')).toMatchObject({ source: expect.any(String), confidence: expect.any(Number) });
+  });
+
+  it('clusters every candidate and honours maxPerPlatform', () => {
+    const graph = resolveIdentity(person, [twitterOther, twitterReal, github, stranger], undefined, { maxPerPlatform: 2 });
+    expect(graph.profiles.filter(p => p.profile.platform === 'twitter')).toHaveLength(2);
+    expect(graph.clusters.flatMap(c => c.profiles).sort()).toHaveLength(4);
+    const real = graph.profiles.find(p => p.id === 'twitter/janedoe_sf')!;
+    const gh = graph.profiles.find(p => p.id === 'github/janedoe')!;
+    expect(real.cluster).toBe(gh.cluster);
+    expect(graph.clusters.find(c => c.profiles.includes('reddit/xyz123'))!.profiles).toEqual(['reddit/xyz123']);
+  });
+
+  it('names cluster platforms by their platform key', () => {
+    const mirror = { ...github, platform: 'GitHub', username: 'JaneDoe' };
+    const graph = resolveIdentity(person, [twitterReal, github, mirror, { ...twitterOther, platform: 'X' }], undefined, { maxPerPlatform: 2 });
+    const cluster = graph.clusters.find(c => c.profiles.includes('github/janedoe'))!;
+    expect(cluster.profiles).toHaveLength(4);
+    expect(cluster.platforms.sort()).toEqual(['github', 'twitter']);
+  });
+});
+
+describe('POST /match/resolve', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  async function resolve(body: unknown) {
+    const res = await fetch(`${baseUrl}/match/resolve`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  }
+
+  beforeAll(async () => {
+    server = createApp({ logger: { info: () => {}, error: () => {} } }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as any).port}`;
+  });
+
+  afterAll(() => { server.close(); });
+
+  it('returns the identity graph', async () => {
+    const res = await resolve({ person, profiles: [twitterOther, twitterReal, github] });
+    expect(res.status).toBe(200);
+    expect(res.body.profiles).toHaveLength(2);
+    expect(res.body.rejected[0]).toMatchObject({ id: 'twitter/jd_photos', reason: 'platform_limit' });
+    expect(res.body.weights).toBeDefined();
+  });
+
+  it('validates maxPerPlatform', async () => {
+    const res = await resolve({ person, profiles: [github], maxPerPlatform: 0 });
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].path).toBe('maxPerPlatform');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { findJobRoleMentions, findJobRoles, loadJobTitles, parseJobTitle, titleWords } from '../src/job-titles';
+import { matchJobTitleInBio } from '../src/matching';
+
+describe('titleWords', () => {
+  it('expands abbreviations', () => {
+    expect(titleWords('Sr. SWE')).toEqual(['senior', 'software', 'engineer']);
+    expect(titleWords('VP Eng')).toEqual(['vice', 'president', 'engineering']);
+  });
+});
+
+describe('parseJobTitle', () => {
+  it('reads family and seniority', () => {
+    expect(parseJobTitle('Senior Software Engineer')).toEqual([
+      { family: 'engineering', level: 'senior', rank: 3, source: 'senior software engineer' },
+    ]);
+    expect(parseJobTitle('Vice President of Engineering')[0]).toMatchObject({ family: 'engineering', level: 'vp' });
+    expect(parseJobTitle('Designer')).toEqual([{ family: 'design', source: 'designer' }]);
+  });
+
+  it('keeps a level with the role it precedes', () => {
+    expect(parseJobTitle('Founder & CTO')).toEqual([
+      { family: 'executive', source: 'founder' },
+      { family: 'engineering', level: 'chief', rank: 8, source: 'chief technology' },
+    ]);
+  });
+
+  it('prefers the longest phrase', () => {
+    expect(parseJobTitle('Product Manager')).toEqual([{ family: 'product', source: 'product manager' }]);
+    expect(parseJobTitle('CISO')[0]).toMatchObject({ family: 'security', level: 'chief' });
+  });
+
+  it('finds nothing in titles outside the taxonomy', () => expect(parseJobTitle('Wizard')).toEqual([]));
+
+  it('needs more than a generic head noun to set the family', () => {
+    expect(parseJobTitle('Mechanical Engineer')).toEqual([]);
+    expect(parseJobTitle('Data Entry Clerk')).toEqual([{ family: 'operations', source: 'data entry clerk' }]);
+  });
+});
+
+describe('findJobRoles', () => {
+  it('finds titles embedded in sentences', () => {
+    expect(findJobRoles('I lead the data team at Acme')).toEqual([{ family: 'data', level: 'lead', rank: 4, source: 'lead the data' }]);
+    expect(findJobRoles('Dad, runner. Head of Design @ Acme')[0]).toMatchObject({ family: 'design', level: 'director' });
+  });
+
+  it('gives where each role was found', () => {
+    const text = 'Sr. Dev at Acme, (Head of Design)';
+    expect(findJobRoleMentions(text).map(m => text.slice(m.start, m.end))).toEqual(['Sr. Dev', 'Head of Design']);
+  });
+
+  it('ignores bare department words', () => expect(findJobRoles('I love good design and data')).toEqual([]));
+
+  it('reads abbreviation dots as part of the title', () => {
+    expect(findJobRoles('Sr. Dev. Coffee addict')[0]).toMatchObject({ family: 'engineering', level: 'senior' });
+  });
+
+  it('accepts families loaded at runtime', () => {
+    loadJobTitles({ version: 'test', abbreviations: { dba: 'database administrator' }, levels: {},
+      families: { it: { titles: ['database administrator'] } } });
+    expect(findJobRoles('DBA at Acme')).toEqual([{ family: 'it', source: 'database administrator' }]);
+  });
+});
+
+describe('matchJobTitleInBio with the taxonomy', () => {
+  it('matches abbreviations and synonyms', () => {
+    expect(matchJobTitleInBio('Vice President of Engineering', 'VP Eng at Acme')).toBe(1);
+    expect(matchJobTitleInBio('Senior Developer', 'Sr. Dev, coffee')).toBe(1);
+    expect(matchJobTitleInBio('Data Engineer', 'Data engineer @ Acme')).toBe(1);
+  });
+
+  it('gives partial credit across seniority', () => {
+    expect(matchJobTitleInBio('Senior Software Engineer', 'Staff software engineer')).toBe(0.8);
+    expect(matchJobTitleInBio('Junior Software Engineer', 'Principal software engineer')).toBe(0.4);
+  });
+
+  it('gives reduced credit when only one level is known', () => {
+    expect(matchJobTitleInBio('Engineering Manager', 'Software engineer at Acme')).toBe(0.7);
+    expect(matchJobTitleInBio('Software Engineer', 'Staff software engineer')).toBe(0.7);
+    expect(matchJobTitleInBio('Data Engineer', 'I lead the data team at Acme')).toBe(0.7);
+  });
+
+  it('gives half credit for a related family', () => {
+    expect(matchJobTitleInBio('Software Engineer', 'Data scientist at Acme')).toBe(0.5);
+    expect(matchJobTitleInBio('Software Engineer', 'Account executive')).toBe(0);
+    expect(matchJobTitleInBio('Software Engineer', 'Mechanical engineer at Boeing')).toBeLessThan(0.5);
+  });
+
+  it('explains the comparison', () => {
+    const evidence: string[] = [];
+    matchJobTitleInBio('Software Engineer', 'SWE at Google', evidence);
+    expect(evidence).toEqual(['bio role "software engineer" (engineering) vs job title engineering']);
+  });
+});
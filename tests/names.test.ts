@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { nameForms, normalizeName, parseName } from '../src/names';
+import { matchName } from '../src/matching';
+import { PersonSchema } from '../src/types';
+
+describe('normalizeName', () => {
+  it('folds accents and special letters', () => {
+    expect(normalizeName('José Núñez')).toBe('jose nunez');
+    expect(normalizeName('Łukasz Żółć')).toBe('lukasz zolc');
+    expect(normalizeName('Þór Ægir')).toBe('thor aegir');
+  });
+
+  it('drops apostrophes and reads hyphens as spaces', () => {
+    expect(normalizeName("O'Brien")).toBe('obrien');
+    expect(normalizeName('D’Angelo')).toBe('dangelo');
+    expect(normalizeName('Mary-Jane Watson')).toBe('mary jane watson');
+  });
+
+  it('strips emoji and decorative letters', () => {
+    expect(normalizeName('✨ Jane Doe 🇺🇸')).toBe('jane doe');
+    expect(normalizeName('𝓙𝓪𝓷𝓮 𝓓𝓸𝓮')).toBe('jane doe');
+    expect(normalizeName('ᴊᴀɴᴇ ᴅᴏᴇ')).toBe('jane doe');
+    expect(normalizeName('Ｊａｎｅ')).toBe('jane');
+  });
+
+  it('removes honorifics and suffixes', () => {
+    expect(normalizeName('Dr. Jane Doe, PhD')).toBe('jane doe');
+    expect(normalizeName('John Smith III')).toBe('john smith');
+    expect(normalizeName('Mrs. Jr.')).toBe('jr');
+  });
+
+  it('transliterates Cyrillic and Greek', () => {
+    expect(normalizeName('Александр Пушкин')).toBe('aleksandr pushkin');
+    expect(normalizeName('Γιώργος Παπαδόπουλος')).toBe('giorgos papadopoulos');
+  });
+
+  it('romanizes CJK names family name first', () => {
+    expect(normalizeName('王小明')).toBe('wang xiaoming');
+    expect(normalizeName('欧阳娜娜')).toBe('ouyang nana');
+    expect(normalizeName('김민준')).toBe('kim minjun');
+    expect(normalizeName('さとう はなこ')).toBe('sato hanako');
+    expect(normalizeName('サトウ・ハナコ')).toBe('sato hanako');
+  });
+});
+
+describe('nameForms', () => {
+  it('adds the German/Nordic transliteration', () => {
+    expect(nameForms('Müller')).toEqual(['muller', 'mueller']);
+    expect(nameForms('Søren')).toEqual(['soren', 'soeren']);
+    expect(nameForms('Jane Doe')).toEqual(['jane doe']);
+  });
+  it('is empty for names without letters', () => expect(nameForms('🙂 123')).toEqual([]));
+});
+
+describe('matchName with normalization', () => {
+  it('matches across accents, transliterations and punctuation', () => {
+    expect(matchName('José Núñez', 'Jose Nunez')).toBe(1);
+    expect(matchName('Müller', 'Mueller')).toBe(1);
+    expect(matchName("O'Brien", 'OBrien')).toBe(1);
+    expect(matchName('Александр Пушкин', 'Aleksandr Pushkin')).toBe(1);
+    expect(matchName('김민준', 'Kim Minjun')).toBe(1);
+  });
+
+  it('ignores emoji and honorifics', () => {
+    expect(matchName('Jane 😀 Doe', 'Jane Doe')).toBe(1);
+    expect(matchName('Dr. Jane Doe', 'Jane Doe Jr.')).toBe(1);
+  });
+
+  it('gives near-full credit for spacing differences', () => {
+    const evidence: string[] = [];
+    expect(matchName('O Brien', 'OBrien', evidence)).toBe(0.95);
+    expect(evidence).toEqual(['names "o brien" and "obrien" differ only in spacing']);
+  });
+
+  it('finds nicknames of transliterated names', () => {
+    expect(matchName('Александр Пушкин', 'Sasha Pushkin')).toBeGreaterThanOrEqual(0.9);
+  });
+});
+
+describe('parseName', () => {
+  it('splits given, middle and family names', () => {
+    expect(parseName('Mary Jane Watson')).toEqual([{ given: ['mary'], middle: ['jane'], family: ['watson'] }]);
+    expect(parseName('Dr. Mary Jane Watson Jr.')).toEqual(parseName('Mary Jane Watson'));
+  });
+
+  it('reads "Last, First" order but not a suffix after a comma', () => {
+    expect(parseName('Doe, Jane Q.')).toEqual([{ given: ['jane'], middle: ['q'], family: ['doe'] }]);
+    expect(parseName('Jane Doe, PhD')).toEqual([{ given: ['jane'], middle: [], family: ['doe'] }]);
+  });
+
+  it('keeps particles and hyphenated names in the family name', () => {
+    expect(parseName('Ludwig van Beethoven')[0].family).toEqual(['van', 'beethoven']);
+    expect(parseName('Jane Smith-Doe')[0].family).toEqual(['smith', 'doe']);
+  });
+
+  it('reads capitalized short words as initials', () => {
+    expect(parseName('MJ Watson')[0].given).toEqual(['m', 'j']);
+    expect(parseName('M.J. Watson')[0].given).toEqual(['m', 'j']);
+    expect(parseName('Jo Watson')[0].given).toEqual(['jo']);
+  });
+
+  it('puts the family name first for East Asian scripts', () => {
+    expect(parseName('王小明')).toEqual([{ given: ['xiaoming'], middle: [], family: ['wang'], familyFirst: true }]);
+  });
+
+  it('reads structured names and their aliases', () => {
+    expect(parseName({ given: 'Jane', middle: ['Q'], family: 'Smith-Doe', aliases: ['Jane Smith'] })).toEqual([
+      { given: ['jane'], middle: ['q'], family: ['smith', 'doe'] },
+      { given: ['jane'], middle: [], family: ['smith'] },
+    ]);
+  });
+});
+
+describe('matchName alignment', () => {
+  it('matches initials against full names', () => {
+    expect(matchName('Mary Jane Watson', 'MJ Watson')).toBe(0.9);
+    expect(matchName('Jane Doe', 'J. Doe')).toBe(0.8);
+  });
+
+  it('matches reordered names', () => {
+    expect(matchName('Jane Doe', 'Doe, Jane')).toBe(1);
+    expect(matchName('Jane Doe', 'Doe Jane')).toBe(0.9);
+    expect(matchName('Gabriel García Márquez', 'García Márquez Gabriel')).toBe(0.9);
+  });
+
+  it('matches one half of a hyphenated family name', () => {
+    const evidence: string[] = [];
+    expect(matchName('Jane Smith-Doe', 'Jane Doe', evidence)).toBe(0.95);
+    expect(evidence).toEqual(['given name "jane" matches', 'family name "doe" matches', 'unmatched name parts "smith"']);
+  });
+
+  it('lets a middle name stand in for the given name', () => expect(matchName('Mary Jane Watson', 'Jane Watson')).toBe(0.95));
+  it('ignores family name particles', () => expect(matchName('Ludwig van Beethoven', 'Ludwig Beethoven')).toBe(1));
+  it('does not match a shared word in the wrong place', () => expect(matchName('Jane Doe', 'Doe Smith')).toBeLessThan(0.5));
+
+  it('accepts structured names in requests', () => {
+    expect(PersonSchema.safeParse({ name: { given: 'Jane', middle: ['Q'], family: 'Doe', aliases: ['Jane Smith'] } }).success).toBe(true);
+    expect(PersonSchema.safeParse({ name: { given: 7 } }).success).toBe(false);
+  });
+
+  it('tries structured names and aliases', () => {
+    const name = { given: 'Jane', family: 'Doe', aliases: ['Jane Smith'] };
+    expect(matchName(name, 'Jane Smith')).toBe(1);
+    expect(matchName({ given: 'Mary', middle: 'Jane', family: 'Watson' }, 'MJ Watson')).toBe(0.9);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { addNicknames, areNicknameVariants, nicknameGroups, nicknameStats, nicknameVariants } from '../src/nicknames';
+import { matchName } from '../src/matching';
+
+describe('nickname dictionary', () => {
+  it('loads a few thousand entries', () => {
+    const stats = nicknameStats();
+    expect(stats.names).toBeGreaterThan(2000);
+    expect(stats.version).toMatch(/^\d{4}\./);
+  });
+
+  it('Margaret/Greta', () => expect(areNicknameVariants('Margaret', 'Greta')).toBe(true));
+  it('Alejandro/Alex', () => expect(areNicknameVariants('Alejandro', 'Alex')).toBe(true));
+  it('Aleksandr/Sasha', () => expect(areNicknameVariants('Aleksandr', 'Sasha')).toBe(true));
+  it('accent-insensitive', () => expect(areNicknameVariants('José', 'Pepe')).toBe(true));
+
+  it('john is not grouped with jonathan', () => {
+    expect(areNicknameVariants('John', 'Jonathan')).toBe(false);
+    expect(areNicknameVariants('Jon', 'Jonathan')).toBe(true);
+    expect(areNicknameVariants('Jon', 'John')).toBe(true);
+  });
+
+  it('many-to-many: alex belongs to several groups', () => {
+    expect(nicknameGroups('alex')).toEqual(expect.arrayContaining(['alexander', 'alexandra']));
+    expect(areNicknameVariants('Alexander', 'Alexandra')).toBe(false);
+  });
+
+  it('unrelated names', () => expect(areNicknameVariants('William', 'Robert')).toBe(false));
+
+  it('does not match two nicknames through the name they shorten', () => {
+    expect(areNicknameVariants('Ron', 'Aaron')).toBe(true);
+    expect(areNicknameVariants('Ron', 'Erin')).toBe(false);
+    expect(matchName('Ron Weasley', 'Erin Weasley')).toBeLessThan(0.9);
+  });
+  it('unknown names', () => expect(areNicknameVariants('Zxqv', 'Qwerty')).toBe(false));
+
+  it('extends groups at runtime', () => {
+    expect(areNicknameVariants('Bartholomew', 'Barty')).toBe(false);
+    addNicknames('bartholomew', ['Barty']);
+    expect(areNicknameVariants('Bartholomew', 'Barty')).toBe(true);
+    expect(nicknameVariants('barty')).toContain('bartholomew');
+  });
+
+  it('feeds matchName', () => expect(matchName('Margaret Thatcher', 'Greta Thatcher')).toBeGreaterThanOrEqual(0.9));
+});
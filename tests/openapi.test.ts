@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { buildOpenApiDocument, zodToJsonSchema } from '../src/openapi';
+import { registerMatcher, unregisterMatcher } from '../src/registry';
+
+type Json = Record<string, any>;
+
+function collectRefs(node: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(node)) node.forEach(n => collectRefs(n, refs));
+  else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref') refs.push(value as string);
+      else collectRefs(value, refs);
+    }
+  }
+  return refs;
+}
+
+describe('zodToJsonSchema', () => {
+  it('objects, optional fields and constraints', () => {
+    const schema = z.object({ a: z.string().min(1), b: z.array(z.number().int().min(0)).max(3).optional() });
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        a: { type: 'string', minLength: 1 },
+        b: { type: 'array', items: { type: 'integer', minimum: 0 }, maxItems: 3 },
+      },
+      required: ['a'],
+    });
+  });
+
+  it('unions, records, literals and descriptions', () => {
+    expect(zodToJsonSchema(z.union([z.string(), z.array(z.string())]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    });
+    expect(zodToJsonSchema(z.record(z.boolean()).describe('flags'))).toEqual({
+      type: 'object', additionalProperties: { type: 'boolean' }, description: 'flags',
+    });
+    expect(zodToJsonSchema(z.literal('x'))).toEqual({ const: 'x' });
+  });
+
+  it('documents refinements by their input type', () => {
+    expect(zodToJsonSchema(z.string().refine(s => s.length > 2).transform(s => s.length))).toEqual({ type: 'string' });
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  const doc = buildOpenApiDocument() as Json;
+
+  it('is OpenAPI 3.1', () => expect(doc.openapi).toBe('3.1.0'));
+
+  it('every $ref resolves to a component', () => {
+    for (const ref of collectRefs(doc)) {
+      expect(doc.components.schemas).toHaveProperty(ref.replace('#/components/schemas/', ''));
+    }
+  });
+
+  it('documents the match contract and its validation error', () => {
+    const match = doc.paths['/match'].post;
+    expect(match.requestBody.content['application/json'].schema.$ref).toBe('#/components/schemas/MatchRequest');
+    expect(match.responses[200].content['application/json'].schema.$ref).toBe('#/components/schemas/MatchResponse');
+    expect(match.responses[400].content['application/json'].schema.$ref).toBe('#/components/schemas/ValidationError');
+    expect(doc.components.schemas.ValidationError.properties.error).toEqual({ const: 'Validation Error' });
+  });
+
+  it('derives schemas from the Zod definitions', () => {
+    const { Profile, MatchRequest } = doc.components.schemas;
+    expect(Profile.required).toEqual(['platform', 'username']);
+    expect(MatchRequest.properties.profiles).toMatchObject({ minItems: 1, maxItems: 20 });
+    expect(MatchRequest.properties.scoringProfile.enum).toEqual(expect.arrayContaining(['recruiting', 'fraud']));
+  });
+
+  it('lists registered matchers as weight keys', () => {
+    registerMatcher({ name: 'openapiTest', factor: 'openapi_test', weight: 0.1, applies: () => false, score: () => 0 });
+    try {
+      const names = (buildOpenApiDocument() as Json).components.schemas.Weights.propertyNames.enum;
+      expect(names).toEqual(expect.arrayContaining(['name', 'location', 'openapiTest']));
+    } finally {
+      unregisterMatcher('openapiTest');
+    }
+  });
+});
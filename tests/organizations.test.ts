@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { findOrganizationMentions, loadOrganizations, organizationKey, organizationNames } from '../src/organizations';
+import { matchEmployerInBio } from '../src/matching';
+import { domainMatchesEmployer } from '../src/email';
+
+describe('organizationKey', () => {
+  it('drops legal suffixes and a leading "the"', () => {
+    expect(organizationKey('ACME Corporation')).toBe('acme');
+    expect(organizationKey('Acme & Co. Ltd')).toBe('acme');
+    expect(organizationKey('Siemens AG')).toBe('siemens');
+    expect(organizationKey('The Coca-Cola Company')).toBe('coca cola');
+  });
+  it('keeps a name that is only a suffix', () => expect(organizationKey('Company')).toBe('company'));
+});
+
+describe('organizationNames', () => {
+  it('includes aliases, former names and relatives', () => {
+    const names = organizationNames('Google');
+    expect(names[0]).toEqual({ key: 'google', relation: 'name' });
+    expect(names).toContainEqual({ key: 'alphabet', relation: 'parent', organization: 'Alphabet' });
+    expect(names).toContainEqual({ key: 'youtube', relation: 'subsidiary', organization: 'YouTube' });
+    expect(organizationNames('Meta')).toContainEqual({ key: 'facebook', relation: 'former', organization: 'Meta' });
+  });
+
+  it('accepts organisations loaded at runtime', () => {
+    loadOrganizations({ version: 'test', organizations: { Initech: { formerNames: ['Initrode'] } } });
+    expect(organizationNames('Initech Inc').map(n => n.key)).toEqual(['initech', 'initrode']);
+  });
+});
+
+describe('findOrganizationMentions', () => {
+  it('marks past employment by nearby cues', () => {
+    const mentions = findOrganizationMentions('Acme', 'SRE at Initech (ex-Acme) | Acme alum | Acme fan');
+    expect(mentions.map(m => m.pastCue)).toEqual(['ex', 'alum', undefined]);
+  });
+
+  it('finds concatenated handles', () => {
+    expect(findOrganizationMentions('Acme Corp', 'SWE @acmecorp')[0].source).toBe('@acmecorp');
+  });
+});
+
+describe('matchEmployerInBio', () => {
+  it('ignores legal suffixes', () => expect(matchEmployerInBio('Acme Corp', 'Engineer at ACME Corporation')).toBe(1));
+  it('respects word boundaries', () => expect(matchEmployerInBio('Meta', 'metadata enthusiast')).toBe(0));
+  it('resolves aliases and former names', () => {
+    expect(matchEmployerInBio('Facebook', 'Engineer at Meta')).toBe(1);
+    expect(matchEmployerInBio('Meta', 'Engineer at Facebook')).toBe(0.9);
+  });
+  it('gives partial credit for a parent company', () => expect(matchEmployerInBio('Google', 'SRE, Alphabet')).toBe(0.7));
+  it('scores past employment lower', () => {
+    expect(matchEmployerInBio('Acme', 'ex-Acme, now at Initech')).toBe(0.6);
+    expect(matchEmployerInBio('Acme', 'Previously worked at Acme. Now building Initech')).toBe(0.6);
+    expect(matchEmployerInBio('Acme', 'Previously Initech. Now at Acme')).toBe(1);
+  });
+  it('partial words skip generic ones', () => {
+    expect(matchEmployerInBio('Goldman Sachs', 'Sachs fan')).toBe(0.25);
+    expect(matchEmployerInBio('Acme Global Solutions', 'Global solutions for all')).toBe(0);
+  });
+
+  it('explains the mention', () => {
+    const evidence: string[] = [];
+    matchEmployerInBio('Meta', 'Ex-Facebook engineer', evidence);
+    expect(evidence).toEqual(['bio mentions "Facebook", a former name of Meta as a past employer ("ex")']);
+  });
+});
+
+describe('domainMatchesEmployer with known organisations', () => {
+  it('accepts domains under another name of the employer', () => expect(domainMatchesEmployer('facebook.com', 'Meta')).toBe(true));
+  it('not under a parent company', () => expect(domainMatchesEmployer('alphabet.com', 'Google')).toBe(false));
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { extractPhoneNumbers, inferRegion, normalizePhone, parsePhone } from '../src/phone';
+import { calculateMatchScore, matchPhoneInBio } from '../src/matching';
+import { MatchRequestSchema } from '../src/types';
+
+describe('parsePhone', () => {
+  it('international UK number with (0)', () => expect(normalizePhone('+44 (0)20 7946 0958')).toBe('+442079460958'));
+  it('national UK number', () => expect(normalizePhone('020 7946 0958', 'GB')).toBe('+442079460958'));
+  it('German number with 00 prefix', () => expect(normalizePhone('0049 30 1234567')).toBe('+49301234567'));
+  it('national German number', () => expect(normalizePhone('030 1234567', 'DE')).toBe('+49301234567'));
+  it('Indian mobile', () => expect(normalizePhone('+91 98765 43210')).toBe('+919876543210'));
+  it('US number with trunk 1', () => expect(normalizePhone('1 (555) 123-4567', 'US')).toBe('+15551234567'));
+  it('US international dialling prefix', () => expect(normalizePhone('011 44 20 7946 0958', 'US')).toBe('+442079460958'));
+  it('dotted format', () => expect(normalizePhone('555.123.4567', 'US')).toBe('+15551234567'));
+  it('extension', () => {
+    const parsed = parsePhone('+1 555 123 4567 ext. 89');
+    expect(parsed?.e164).toBe('+15551234567');
+    expect(parsed?.extension).toBe('89');
+  });
+  it('unknown region keeps national digits', () => {
+    const parsed = parsePhone('555-123-4567');
+    expect(parsed?.e164).toBeUndefined();
+    expect(parsed?.nationalNumber).toBe('5551234567');
+  });
+  it('rejects wrong length for region', () => expect(parsePhone('12345678', 'US')).toBeNull());
+  it('rejects short numbers', () => expect(parsePhone('123')).toBeNull());
+});
+
+describe('inferRegion', () => {
+  it('US state code', () => expect(inferRegion('San Francisco, CA')).toBe('US'));
+  it('UK city', () => expect(inferRegion('London')).toBe('GB'));
+  it('country name', () => expect(inferRegion('Munich, Germany')).toBe('DE'));
+  it('Indian city', () => expect(inferRegion('Bengaluru')).toBe('IN'));
+  it('unknown', () => expect(inferRegion('Somewhere')).toBeUndefined());
+});
+
+describe('extractPhoneNumbers', () => {
+  it('finds several numbers in a bio', () => {
+    const found = extractPhoneNumbers('Office: +44 20 7946 0958 | Mobile: 07700 900123', 'GB');
+    expect(found.map(p => p.e164)).toEqual(['+442079460958', '+447700900123']);
+  });
+  it('separates a year run into a number', () => {
+    const found = extractPhoneNumbers('Since 1990 5551234567');
+    expect(found.map(p => p.nationalNumber)).toContain('5551234567');
+  });
+});
+
+describe('matchPhoneInBio international', () => {
+  it('UK number in national vs international format', () => {
+    expect(matchPhoneInBio('020 7946 0958', 'Call +44 (0)20 7946 0958', undefined, 'GB')).toBe(1);
+  });
+  it('same digits in a different country do not match', () => {
+    expect(matchPhoneInBio('+44 20 7946 0958', 'Call +49 20 7946 0958')).toBe(0);
+  });
+  it('no last-7-digit fallback outside North America', () => {
+    expect(matchPhoneInBio('+44 20 7946 0958', 'Ref 7946095', undefined, 'GB')).toBe(0);
+    expect(matchPhoneInBio('+91 98765 43210', 'Code 6543210')).toBe(0);
+  });
+  it('extensions still match', () => {
+    expect(matchPhoneInBio('+1 555 123 4567', 'Desk: 555.123.4567 x204')).toBe(1);
+  });
+  it('infers the region from the person location', () => {
+    const result = calculateMatchScore(
+      { phone: '030 1234567', location: 'Berlin' },
+      { platform: 'x', username: 'a', bio: 'Tel. +49 30 1234567' },
+    );
+    expect(result.factors.phone_in_bio).toBe(1);
+  });
+  it('falls back to the default region', () => {
+    const person = { phone: '07700 900123' };
+    const profile = { platform: 'x', username: 'a', bio: 'WhatsApp +44 7700 900123' };
+    expect(calculateMatchScore(person, profile, undefined, { defaultRegion: 'GB' }).factors.phone_in_bio).toBe(1);
+  });
+});
+
+describe('defaultRegion request option', () => {
+  const base = { person: {}, profiles: [{ platform: 'x', username: 'a' }] };
+  it('accepts and upper-cases known regions', () => {
+    const parsed = MatchRequestSchema.parse({ ...base, defaultRegion: 'gb' });
+    expect(parsed.defaultRegion).toBe('GB');
+  });
+  it('rejects unknown regions', () => expect(MatchRequestSchema.safeParse({ ...base, defaultRegion: 'XX' }).success).toBe(false));
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import { ProfileMatcher } from '../src/index';
+import { resolveWeights } from '../src/scoring';
+
+const person = { name: 'Jane Doe', employer: 'Acme Corp', location: 'San Francisco' };
+const profiles = [
+  { platform: 'twitter', username: 'random', displayName: 'Someone Else', location: 'Tokyo' },
+  { platform: 'linkedin', username: 'janedoe', displayName: 'Jane Doe', bio: 'Engineer at Acme Corp', location: 'SF' },
+];
+
+describe('ProfileMatcher', () => {
+  it('ranks profiles like POST /match', () => {
+    const matches = new ProfileMatcher().match(person, profiles);
+    expect(matches.map(m => m.profile.username)).toEqual(['janedoe', 'random']);
+    expect(matches[0].explanation).toBeUndefined();
+  });
+
+  it('resolves weights once from the options', () => {
+    const matcher = new ProfileMatcher({ scoringProfile: 'fraud', weights: { phone: 0 } });
+    expect(matcher.weights).toEqual(resolveWeights({ phone: 0 }, 'fraud'));
+  });
+
+  it('explains when asked', () => {
+    const result = new ProfileMatcher({ explain: true }).score(person, profiles[1]);
+    expect(result.explanation?.name_match.evidence.length).toBeGreaterThan(0);
+  });
+
+  it('is not capped at 20 profiles', () => {
+    const many = Array.from({ length: 50 }, (_, i) => ({ platform: 'x', username: `u${i}` }));
+    expect(new ProfileMatcher().match(person, many)).toHaveLength(50);
+  });
+
+  it('matches batches with per-item errors', () => {
+    const response = new ProfileMatcher().matchBatch([{ id: 'a', person }, { id: 'b', person: { name: 7 } }], profiles);
+    expect(response.summary).toEqual({ total: 2, succeeded: 1, failed: 1 });
+    expect(response.results[1].error?.error).toBe('Validation Error');
+  });
+
+  it('throws ZodError on invalid options or input', () => {
+    expect(() => new ProfileMatcher({ scoringProfile: 'nope' })).toThrow(ZodError);
+    expect(() => new ProfileMatcher({ weights: { bogus: 1 } })).toThrow(ZodError);
+    expect(() => new ProfileMatcher().match(person, [{ platform: 'x' } as any])).toThrow(ZodError);
+  });
+});
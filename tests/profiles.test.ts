@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Server } from 'http';
+import { ProfileStore } from '../src/profiles';
+import { createApp } from '../src/app';
+
+const PROFILES = [
+  { platform: 'github', username: 'wsmith', displayName: 'Bill Smith' },
+  { platform: 'twitter', username: 'janedoe', displayName: 'JD', bio: 'Engineer' },
+  { platform: 'instagram', username: 'sunsets_and_more', bio: 'Call me on (415) 555-0134' },
+  { platform: 'linkedin', username: 'alice-cooper', displayName: 'Alice Cooper' },
+];
+
+const usernames = (profiles: { username: string }[]) => profiles.map(p => p.username).sort();
+
+describe('ProfileStore', () => {
+  it('upserts by platform and username, case-insensitively', () => {
+    const store = new ProfileStore();
+    expect(store.upsert(PROFILES)).toEqual({ created: 4, updated: 0 });
+    expect(store.upsert([{ platform: 'GitHub', username: 'WSmith', displayName: 'William Smith' }])).toEqual({ created: 0, updated: 1 });
+    expect(store.size).toBe(4);
+    expect(store.get('github', 'wsmith')?.displayName).toBe('William Smith');
+    expect(store.delete('github', 'wsmith')).toBe(true);
+    expect(store.delete('github', 'wsmith')).toBe(false);
+    expect(store.get('github', 'wsmith')).toBeUndefined();
+  });
+
+  it('retrieves candidates by name token, including nickname groups', () => {
+    const store = new ProfileStore();
+    store.upsert(PROFILES);
+    expect(usernames(store.candidates({ name: 'William Smith' }))).toEqual(['wsmith']);
+  });
+
+  it('retrieves candidates by usernames derived from emails and names', () => {
+    const store = new ProfileStore();
+    store.upsert(PROFILES);
+    expect(usernames(store.candidates({ email: 'jane.doe@example.com' }))).toEqual(['janedoe']);
+    expect(usernames(store.candidates({ name: 'Jane Doe' }))).toEqual(['janedoe']);
+  });
+
+  it('retrieves candidates by phone digits found in bios', () => {
+    const store = new ProfileStore();
+    store.upsert(PROFILES);
+    expect(usernames(store.candidates({ phone: '+1 415 555 0134' }))).toEqual(['sunsets_and_more']);
+    expect(store.candidates({ phone: '+1 212 555 0199' })).toEqual([]);
+  });
+
+  it('ranks candidates sharing more keys first and drops them from the index on delete', () => {
+    const store = new ProfileStore();
+    store.upsert([...PROFILES, { platform: 'reddit', username: 'smithy', displayName: 'Bill Nye' }]);
+    expect(store.candidates({ name: 'Bill Smith' }).map(p => p.username)).toEqual(['wsmith', 'smithy']);
+    store.delete('github', 'wsmith');
+    expect(usernames(store.candidates({ name: 'Bill Smith' }))).toEqual(['smithy']);
+  });
+
+  it('persists profiles and rebuilds the index on load', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pm-profiles-')), 'profiles.json');
+    const store = new ProfileStore(file);
+    store.upsert(PROFILES);
+    store.flush();
+    const reloaded = new ProfileStore(file);
+    expect(reloaded.size).toBe(4);
+    expect(usernames(reloaded.candidates({ name: 'Alice Cooper' }))).toEqual(['alice-cooper']);
+    fs.rmSync(path.dirname(file), { recursive: true });
+  });
+});
+
+describe('profile store API', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  async function call(route: string, init: { method?: string; body?: unknown } = {}) {
+    const res = await fetch(`${baseUrl}${route}`, {
+      method: init.method ?? (init.body ? 'POST' : 'GET'),
+      headers: { 'Content-Type': 'application/json' },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    return { status: res.status, data: res.status === 204 ? null : await res.json() };
+  }
+
+  beforeEach(async () => {
+    server = createApp({ logger: { info: () => {}, error: () => {} } }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as any).port}`;
+  });
+
+  afterEach(() => { server.close(); });
+
+  it('stores, fetches and deletes profiles', async () => {
+    const stored = await call('/profiles', { body: { profiles: PROFILES } });
+    expect(stored).toEqual({ status: 200, data: { created: 4, updated: 0, total: 4 } });
+    expect((await call('/profiles/twitter/JaneDoe')).data).toMatchObject({ username: 'janedoe' });
+    expect((await call('/profiles/twitter/janedoe', { method: 'DELETE' })).status).toBe(204);
+    expect((await call('/profiles/twitter/janedoe')).status).toBe(404);
+  });
+
+  it('rejects invalid profiles', async () => {
+    const { status, data } = await call('/profiles', { body: { profiles: [{ platform: 'x' }] } });
+    expect(status).toBe(400);
+    expect(data.details[0].path).toBe('profiles.0.username');
+  });
+
+  it('searches the store with only a person', async () => {
+    await call('/profiles', { body: { profiles: PROFILES } });
+    const { status, data } = await call('/match/search', { body: { person: { name: 'Jane Doe', email: 'jane.doe@example.com' } } });
+    expect(status).toBe(200);
+    expect(data.candidates).toBe(1);
+    expect(data.matches[0].profile.username).toBe('janedoe');
+    expect(data.matches[0].factors.email_username_match).toBeGreaterThan(0);
+  });
+
+  it('keeps the top K matches and counts every candidate by tier', async () => {
+    await call('/profiles', { body: { profiles: PROFILES } });
+    const { data } = await call('/match/search', { body: { person: { name: 'Bill Smith', email: 'jane.doe@example.com' }, topK: 1 } });
+    expect(data.candidates).toBe(2);
+    expect(data.matches).toHaveLength(1);
+    expect(Object.values(data.tiers).reduce((a: number, b: any) => a + b, 0)).toBe(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Matcher, getMatchers, registerMatcher, unregisterMatcher, defaultWeights } from '../src/registry';
+import { calculateMatchScore } from '../src/matching';
+import { resolveWeights } from '../src/scoring';
+import { MatchRequestSchema } from '../src/types';
+
+const pronounsMatcher: Matcher = {
+  name: 'pronouns',
+  factor: 'pronouns_in_bio',
+  weight: 0.05,
+  applies: (_person, profile) => !!profile.bio,
+  score: (_person, profile) => (/\b(she|he|they)\/(her|him|them)\b/i.test(profile.bio!) ? 1 : 0),
+};
+
+describe('matcher registry', () => {
+  afterEach(() => { unregisterMatcher('pronouns'); });
+
+  it('registers the built-in matchers in order', () => {
+    expect(getMatchers().map(m => m.name)).toEqual([
+      'name', 'location', 'employer', 'jobTitle', 'emailUsername', 'email', 'username', 'phone', 'dateOfBirth', 'crossLink',
+    ]);
+  });
+
+  it('gives every built-in matcher a positive default weight', () => {
+    expect(Object.values(defaultWeights()).every(w => w > 0)).toBe(true);
+  });
+
+  it('scores with a plugged-in matcher', () => {
+    registerMatcher(pronounsMatcher);
+    const result = calculateMatchScore(
+      { name: 'Jane Doe' },
+      { platform: 'x', username: 'jd', displayName: 'Jane Doe', bio: 'she/her' },
+    );
+    expect(result.factors.pronouns_in_bio).toBe(1);
+    expect(result.factors.name_match).toBe(1);
+  });
+
+  it('accepts weights for plugged-in matchers', () => {
+    registerMatcher(pronounsMatcher);
+    const parsed = MatchRequestSchema.safeParse({
+      person: {}, profiles: [{ platform: 'x', username: 'a' }], weights: { pronouns: 0.5 },
+    });
+    expect(parsed.success).toBe(true);
+    expect(resolveWeights({ pronouns: 0.5 })).toHaveProperty('pronouns');
+  });
+
+  it('skips matchers that do not apply', () => {
+    registerMatcher(pronounsMatcher);
+    const result = calculateMatchScore({ name: 'Jane' }, { platform: 'x', username: 'j', displayName: 'Jane' });
+    expect(result.factors).not.toHaveProperty('pronouns_in_bio');
+    expect(result.score).toBe(1);
+  });
+
+  it('lifts the match score for a conclusive factor', () => {
+    registerMatcher({ ...pronounsMatcher, conclusive: 0.9 });
+    const profile = { platform: 'x', username: 'jd', displayName: 'John Smith', bio: 'she/her' };
+    expect(calculateMatchScore({ name: 'Jane Doe' }, profile).score).toBe(0.9);
+    expect(() => registerMatcher({ ...pronounsMatcher, name: 'other', factor: 'other', conclusive: 2 })).toThrow(/conclusive/);
+  });
+
+  it('rejects duplicate names and factors', () => {
+    registerMatcher(pronounsMatcher);
+    expect(() => registerMatcher(pronounsMatcher)).toThrow(/already registered/);
+    expect(() => registerMatcher({ ...pronounsMatcher, name: 'other' })).toThrow(/already reported/);
+  });
+
+  it('rejects invalid weights', () => {
+    expect(() => registerMatcher({ ...pronounsMatcher, weight: -1 })).toThrow(/invalid weight/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { SCORING_PROFILES, normalizeWeights, resolveWeights } from '../src/scoring';
+import { defaultWeights } from '../src/registry';
+import { MatchRequestSchema } from '../src/types';
+import { calculateMatchScore } from '../src/matching';
+
+const sum = (w: Record<string, number>) => Object.values(w).reduce((a, b) => a + b, 0);
+
+describe('normalizeWeights', () => {
+  it('scales weights to sum to 1', () => {
+    const w = normalizeWeights({ ...defaultWeights(), name: 3, location: 1 });
+    expect(sum(w)).toBeCloseTo(1, 3);
+    expect(w.name).toBeGreaterThan(w.location);
+  });
+  it('rejects all-zero weights', () => {
+    const zero = Object.fromEntries(Object.keys(defaultWeights()).map(k => [k, 0]));
+    expect(() => normalizeWeights(zero)).toThrow();
+  });
+});
+
+describe('resolveWeights', () => {
+  it('returns the registered defaults when nothing is requested', () => {
+    expect(resolveWeights()).toEqual(normalizeWeights(defaultWeights()));
+  });
+  it('applies a scoring profile', () => {
+    const w = resolveWeights(undefined, 'recruiting');
+    expect(w.jobTitle).toBeCloseTo(normalizeWeights(SCORING_PROFILES.recruiting).jobTitle, 3);
+    expect(sum(w)).toBeCloseTo(1, 3);
+  });
+  it('request weights override the profile', () => {
+    const w = resolveWeights({ phone: 0 }, 'fraud');
+    expect(w.phone).toBe(0);
+    expect(sum(w)).toBeCloseTo(1, 3);
+  });
+  it('unspecified factors keep their default share', () => {
+    const w = resolveWeights({ name: 0.34, employer: 0.14 }); // Same total as the defaults they replace
+    expect(w.location).toBeCloseTo(normalizeWeights(defaultWeights()).location, 3);
+  });
+});
+
+describe('default weights', () => {
+  // The factors and weights the matcher started with
+  const BASELINE = { name: 0.30, location: 0.12, employer: 0.18, jobTitle: 0.10, emailUsername: 0.18, phone: 0.07, dateOfBirth: 0.05 };
+
+  it('keep the baseline weights of the original factors', () => {
+    const defaults = defaultWeights();
+    expect(Object.fromEntries(Object.keys(BASELINE).map(k => [k, defaults[k]]))).toEqual(BASELINE);
+  });
+
+  it('keep the original balance of the scoring profiles', () => {
+    const original = { name: 0.25, location: 0.10, employer: 0.25, emailUsername: 0.10, jobTitle: 0.25, phone: 0.03, dateOfBirth: 0.02 };
+    const recruiting = SCORING_PROFILES.recruiting;
+    expect(Object.fromEntries(Object.keys(original).map(k => [k, recruiting[k]]))).toEqual(original);
+  });
+
+  it('score a pair none of the later factors apply to as the baseline did', () => {
+    const result = calculateMatchScore(
+      { name: 'Jane Doe', location: 'Boston, MA', employer: 'Acme', jobTitle: 'Designer', email: 'jd@example.com' },
+      { platform: 'x', username: 'jdoe_design', displayName: 'Jane Doe', location: 'Cambridge, MA', bio: 'Designer at Acme' },
+    );
+    const factors: Record<string, keyof typeof BASELINE> = {
+      name_match: 'name', location_match: 'location', employer_in_bio: 'employer', job_title_in_bio: 'jobTitle', email_username_match: 'emailUsername',
+    };
+    expect(Object.keys(result.factors).sort()).toEqual(Object.keys(factors).sort());
+    const weighted = Object.entries(result.factors).reduce((sum, [f, s]) => sum + s! * BASELINE[factors[f]], 0);
+    const total = Object.values(factors).reduce((sum, k) => sum + BASELINE[k], 0);
+    expect(result.score).toBe(Math.round((weighted / total) * 100) / 100);
+  });
+});
+
+describe('MatchRequestSchema scoring options', () => {
+  const base = { person: { name: 'Jane' }, profiles: [{ platform: 'x', username: 'jane' }] };
+
+  it('accepts weights and a known profile', () => {
+    expect(MatchRequestSchema.safeParse({ ...base, weights: { name: 1 }, scoringProfile: 'fraud' }).success).toBe(true);
+  });
+  it('rejects negative weights', () => {
+    expect(MatchRequestSchema.safeParse({ ...base, weights: { name: -1 } }).success).toBe(false);
+  });
+  it('rejects unknown factors', () => {
+    expect(MatchRequestSchema.safeParse({ ...base, weights: { shoeSize: 1 } }).success).toBe(false);
+  });
+  it('rejects unknown scoring profiles', () => {
+    const result = MatchRequestSchema.safeParse({ ...base, scoringProfile: 'astrology' });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.errors[0].path).toEqual(['scoringProfile']);
+  });
+  it('rejects weights that zero out every factor', () => {
+    const zero = Object.fromEntries(Object.keys(defaultWeights()).map(k => [k, 0]));
+    expect(MatchRequestSchema.safeParse({ ...base, weights: zero }).success).toBe(false);
+  });
+});
+
+describe('calculateMatchScore with custom weights', () => {
+  const person = { name: 'Jane Doe', employer: 'Acme Corp' };
+  const profile = { platform: 'x', username: 'jd', displayName: 'Jane Doe', bio: 'Engineer at Globex' };
+
+  it('shifts the score toward heavier factors', () => {
+    const nameHeavy = calculateMatchScore(person, profile, resolveWeights({ name: 1, employer: 0.01 }));
+    const employerHeavy = calculateMatchScore(person, profile, resolveWeights({ name: 0.01, employer: 1 }));
+    expect(nameHeavy.score).toBeGreaterThan(employerHeavy.score);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Server } from 'http';
+import { DEFAULT_TIER_BOUNDARIES, countTiers, resolveTiers, tierFor } from '../src/tiers';
+import { rankProfiles } from '../src/matching';
+import { MatchRequestSchema } from '../src/types';
+import { createApp } from '../src/app';
+
+const person = { name: 'Jane Doe', email: 'jane.doe@example.com', location: 'San Francisco, CA' };
+const profiles = [
+  { platform: 'twitter', username: 'janedoe', displayName: 'Jane Doe', location: 'San Francisco' },
+  { platform: 'github', username: 'jdoe', displayName: 'J Doe' },
+  { platform: 'reddit', username: 'random123', displayName: 'Someone Else', location: 'Tokyo' },
+];
+
+describe('confidence tiers', () => {
+  it('labels scores by the lowest score of each tier', () => {
+    expect(tierFor(0.9)).toBe('definite');
+    expect(tierFor(DEFAULT_TIER_BOUNDARIES.probable)).toBe('probable');
+    expect(tierFor(0.55)).toBe('possible');
+    expect(tierFor(0.1)).toBe('no_match');
+    expect(tierFor(0.9, resolveTiers({ definite: 0.95 }))).toBe('probable');
+  });
+
+  it('counts every tier, including empty ones', () => {
+    expect(countTiers([{ tier: 'definite' }, { tier: 'definite' }, { tier: 'no_match' }]))
+      .toEqual({ definite: 2, probable: 0, possible: 0, no_match: 1 });
+  });
+
+  it('rejects boundaries out of order once merged over the defaults', () => {
+    const base = { person, profiles };
+    expect(MatchRequestSchema.safeParse({ ...base, tiers: { definite: 0.95, probable: 0.8 } }).success).toBe(true);
+    expect(MatchRequestSchema.safeParse({ ...base, tiers: { possible: 0.75 } }).success).toBe(false);
+    expect(MatchRequestSchema.safeParse({ ...base, tiers: { sure: 0.9 } }).success).toBe(false);
+  });
+});
+
+describe('rankProfiles', () => {
+  it('tags each result with its tier', () => {
+    const { matches } = rankProfiles(person, profiles);
+    for (const m of matches) expect(m.tier).toBe(tierFor(m.score));
+  });
+
+  it('applies minScore then topK, but counts tiers over every scored profile', () => {
+    const all = rankProfiles(person, profiles);
+    const filtered = rankProfiles(person, profiles, undefined, { minScore: all.matches[1].score, topK: 1 });
+    expect(filtered.matches).toEqual([all.matches[0]]);
+    expect(filtered.tiers).toEqual(all.tiers);
+    expect(rankProfiles(person, profiles, undefined, { minScore: 1.0 }).matches.filter(m => m.score < 1)).toEqual([]);
+  });
+});
+
+describe('tiers over HTTP', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  async function match(body: unknown) {
+    const res = await fetch(`${baseUrl}/match`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, data: await res.json() };
+  }
+
+  beforeAll(async () => {
+    server = createApp({ tiers: { definite: 0.95, possible: 0.6 }, logger: { info: () => {}, error: () => {} } }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as any).port}`;
+  });
+
+  afterAll(() => { server.close(); });
+
+  it('returns a tier per match and a tier summary', async () => {
+    const { status, data } = await match({ person, profiles, minScore: 0.6 });
+    expect(status).toBe(200);
+    expect(Object.values(data.tiers).reduce((a: number, b: any) => a + b, 0)).toBe(3);
+    expect(data.matches.every((m: any) => m.score >= 0.6 && m.tier !== 'no_match')).toBe(true);
+  });
+
+  it('layers request boundaries over the server defaults', async () => {
+    const { data } = await match({ person, profiles: profiles.slice(0, 1) });
+    const score = data.matches[0].score;
+    expect(data.matches[0].tier).toBe(tierFor(score, resolveTiers({ definite: 0.95, possible: 0.6 })));
+    expect((await match({ person, profiles: profiles.slice(0, 1), tiers: { definite: score } })).data.matches[0].tier).toBe('definite');
+  });
+
+  it('rejects request boundaries that conflict with the server defaults', async () => {
+    expect(MatchRequestSchema.safeParse({ person, profiles, tiers: { probable: 0.55 } }).success).toBe(true);
+    const { status, data } = await match({ person, profiles, tiers: { probable: 0.55 } });
+    expect(status).toBe(400);
+    expect(data.details[0].path).toBe('tiers');
+  });
+
+  it('applies minScore and topK per batch item', async () => {
+    const res = await fetch(`${baseUrl}/match/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items: [{ person }], profiles, topK: 1 }),
+    });
+    const { results } = await res.json();
+    expect(results[0].matches).toHaveLength(1);
+    expect(results[0].tiers).toBeDefined();
+  });
+});
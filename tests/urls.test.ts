@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeUrl, platformKey, profileLink } from '../src/urls';
+import { calculateMatchScore, matchCrossLinks } from '../src/matching';
+
+describe('normalizeUrl', () => {
+  it('drops scheme, www, trailing slash, fragment and tracking parameters', () => {
+    expect(normalizeUrl('https://www.JaneDoe.dev/')).toBe('janedoe.dev');
+    expect(normalizeUrl('http://janedoe.dev/blog/?utm_source=x&utm_medium=bio#top')).toBe('janedoe.dev/blog');
+    expect(normalizeUrl('x.com/JaneDoe?s=20&t=abc')).toBe('x.com/janedoe');
+    expect(normalizeUrl('https://m.youtube.com/watch?v=abc&si=xyz')).toBe('youtube.com/watch?v=abc');
+  });
+
+  it('rejects text that is not a web address', () => {
+    expect(normalizeUrl('not a url')).toBeUndefined();
+    expect(normalizeUrl('mailto:jane@acme.com')).toBeUndefined();
+  });
+});
+
+describe('profileLink', () => {
+  it('reads the account a profile URL points at', () => {
+    expect(profileLink('https://twitter.com/JaneDoe')).toEqual({ platform: 'twitter', handle: 'janedoe' });
+    expect(profileLink('linkedin.com/in/jane-doe-123/')).toEqual({ platform: 'linkedin', handle: 'jane-doe-123' });
+    expect(profileLink('https://www.tiktok.com/@jane.doe')).toEqual({ platform: 'tiktok', handle: 'jane.doe' });
+    expect(profileLink('https://github.com/janedoe/dotfiles')).toBeUndefined();
+    expect(profileLink('https://janedoe.dev')).toBeUndefined();
+  });
+
+  it('resolves platform aliases', () => expect(platformKey('X')).toBe('twitter'));
+});
+
+describe('matchCrossLinks', () => {
+  const person = { websites: 'https://janedoe.dev', socialHandles: { github: 'janedoe', x: '@jdoe' } };
+
+  it('verifies the profile itself and links to known sites and accounts', () => {
+    expect(matchCrossLinks(person, { platform: 'twitter', username: 'JDoe' })).toBe(1);
+    expect(matchCrossLinks(person, { platform: 'linkedin', username: 'jane', bio: 'Writing at janedoe.dev/blog' })).toBe(1);
+    const evidence: string[] = [];
+    matchCrossLinks(person, { platform: 'mastodon', username: 'jane', bio: 'Code: https://github.com/JaneDoe/' }, evidence);
+    expect(evidence).toEqual(['bio links to the person\'s github account @janedoe ("https://github.com/JaneDoe/")']);
+    expect(matchCrossLinks(person, { platform: 'reddit', username: 'j', profileUrl: 'https://www.janedoe.dev/?ref=reddit' })).toBe(1);
+  });
+
+  it('counts mentions for less and another handle on the platform against', () => {
+    expect(matchCrossLinks(person, { platform: 'instagram', username: 'jane', bio: 'also @jdoe' })).toBe(0.6);
+    expect(matchCrossLinks(person, { platform: 'github', username: 'jane2', bio: 'alt of @janedoe' })).toBe(0.8);
+    expect(matchCrossLinks(person, { platform: 'github', username: 'someone' })).toBe(0);
+  });
+
+  it('does not apply without anything to check', () => {
+    expect(matchCrossLinks({}, { platform: 'github', username: 'janedoe' })).toBeUndefined();
+    expect(matchCrossLinks(person, { platform: 'linkedin', username: 'jane', bio: 'https://acme.com' })).toBeUndefined();
+  });
+
+  it('treats a verified link as near-conclusive', () => {
+    const result = calculateMatchScore(
+      { name: 'Jane Doe', ...person },
+      { platform: 'mastodon', username: 'jd', displayName: 'J', bio: 'https://janedoe.dev' },
+      undefined, { explain: true },
+    );
+    expect(result.score).toBe(0.95);
+    expect(result.tier).toBe('definite');
+    expect(result.explanation!.cross_link.evidence).toContain('conclusive: the match scores at least 0.95');
+  });
+
+  it('weighs a mention on the scale of the original factors', () => {
+    const profile = { platform: 'instagram', username: 'jane', displayName: 'Jane Doe', bio: 'also @jdoe' };
+    const result = calculateMatchScore({ name: 'Jane Doe', ...person }, profile);
+    expect(result.factors).toEqual({ name_match: 1, cross_link: 0.6 });
+    expect(result.score).toBe(Math.round(((0.30 + 0.6 * 0.06) / 0.36) * 100) / 100);
+  });
+
+  it('explains the lift to the conclusive floor so the explanation sums to the score', () => {
+    const result = calculateMatchScore(
+      { name: 'Jane Doe', ...person },
+      { platform: 'mastodon', username: 'jd', displayName: 'J', bio: 'https://janedoe.dev' },
+      undefined, { explain: true },
+    );
+    const entries = Object.values(result.explanation!);
+    const total = entries.reduce((sum, e) => sum + e.contribution + (e.adjustment ?? 0), 0);
+    expect(result.explanation!.cross_link.adjustment).toBeGreaterThan(0);
+    expect(total).toBeCloseTo(result.score, 3);
+    expect(entries.filter(e => e.adjustment !== undefined)).toHaveLength(1);
+  });
+});
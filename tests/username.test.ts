@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMatchScore, matchUsername } from '../src/matching';
+
+describe('matchUsername', () => {
+  it('first + last', () => expect(matchUsername('Jane Doe', 'janedoe')).toBe(1));
+  it('ignores separators and digits', () => expect(matchUsername('Jane Doe', 'jane.doe_42')).toBe(1));
+  it('last + first', () => expect(matchUsername('Jane Doe', 'doe_jane')).toBe(0.95));
+  it('initial + last', () => expect(matchUsername('Jane Doe', 'jdoe')).toBe(0.9));
+  it('middle initials', () => expect(matchUsername('Mary Ann Lee', 'maryalee')).toBe(0.95));
+  it('nickname + last', () => expect(matchUsername('William Smith', 'bill_smith')).toBe(0.9));
+  it('accents', () => expect(matchUsername('José García', 'josegarcia')).toBe(1));
+  it('single-word names', () => expect(matchUsername('Jane', 'jane')).toBe(1));
+  it('handle embedded in a longer username', () => expect(matchUsername('Jane Doe', 'janedoeofficial')).toBe(0.8));
+
+  it('a first name alone is not evidence', () => expect(matchUsername('Jane Doe', 'jane')).toBe(0));
+  it('unrelated handles', () => expect(matchUsername('Jane Doe', 'sunsets_and_more')).toBe(0));
+  it('missing input', () => expect(matchUsername(undefined, 'janedoe')).toBe(0));
+
+  describe('birth years', () => {
+    it('raises the score for the birth year', () => expect(matchUsername('Jane Doe', 'jdoe1985', '1985-03-02')).toBe(1));
+    it('accepts a two-digit year', () => expect(matchUsername('Jane Doe', 'jdoe85', '1985-03-02')).toBe(1));
+    it('lowers the score for a different year', () => expect(matchUsername('Jane Doe', 'jdoe1990', '1985-03-02')).toBe(0.72));
+    it('does not match on the year alone', () => expect(matchUsername('Jane Doe', 'cool1985', '1985-03-02')).toBe(0));
+  });
+
+  it('explains the handle and year it found', () => {
+    const evidence: string[] = [];
+    matchUsername('Jane Doe', 'jdoe1985', '1985-03-02', evidence);
+    expect(evidence).toEqual(['username "jdoe1985" matches handle "jdoe" from the name', 'username contains birth year 1985']);
+  });
+});
+
+describe('username factor', () => {
+  it('scores a name-derived username without an email', () => {
+    const result = calculateMatchScore(
+      { name: 'Jane Doe', dateOfBirth: '1985-03-02' },
+      { platform: 'x', username: 'jdoe1985', displayName: 'Jane Doe' },
+    );
+    expect(result.factors.username_match).toBe(1);
+    expect(result.factors).not.toHaveProperty('email_username_match');
+  });
+
+  it('does not count unrelated usernames against the match', () => {
+    const result = calculateMatchScore({ name: 'Jane Doe' }, { platform: 'x', username: 'sunsets', displayName: 'Jane Doe' });
+    expect(result.factors).not.toHaveProperty('username_match');
+    expect(result.score).toBe(1);
+  });
+});